@@ -1,42 +1,181 @@
-import axios, { AxiosInstance } from 'axios'
+import axios, { AxiosInstance, AxiosResponse, ResponseType } from 'axios'
 import qs from 'qs'
 import {
+  AddAttributeToFamilyParams,
+  AkeneoApiAuth,
   AkeneoApiConfig,
+  AkeneoAppApiConfig,
   AkeneoRetryConfig,
+  CreateAssociationTypeParams,
+  CreateAttributeGroupParams,
+  CreateAttributeOptionParams,
+  CreateAttributeParams,
+  CreateCatalogParams,
+  CreateCategoryParams,
+  CreateChannelParams,
+  CreateFamilyParams,
+  CreateFamilyVariantParams,
+  CreateProductModelParams,
+  CreateProductParams,
+  CreateProductUuidParams,
   DeleteAssetParams,
   DeleteProductModelParams,
   DeleteProductParams,
+  DeleteProductUuidParams,
+  DownloadAssetMediaFileParams,
+  DownloadMediaFileParams,
+  DownloadReferenceEntityMediaFileParams,
+  GetAssetAttributeOptionParams,
+  GetAssetAttributeParams,
+  GetAssetFamilyParams,
   GetAssetParams,
+  GetAssociationTypeParams,
+  GetAttributeGroupParams,
+  GetAttributeOptionParams,
+  GetAttributeParams,
+  GetCatalogParams,
+  GetCategoryParams,
+  GetChannelParams,
+  GetCurrencyParams,
   GetFamilyParams,
+  GetFamilyVariantParams,
+  GetListOfAssetAttributeOptionsParams,
+  GetListOfAssetAttributesParams,
+  GetListOfAssetFamiliesParams,
   GetListOfAssetsParams,
+  GetListOfAssociationTypesParams,
+  GetListOfAttributeGroupsParams,
   GetListOfAttributeOptionsParams,
   GetListOfAttributesParams,
+  GetListOfCatalogMappedProductsParams,
+  GetListOfCatalogProductUuidsParams,
+  GetListOfCatalogProductsParams,
+  GetListOfCatalogsParams,
   GetListOfCategoriesParams,
+  GetListOfChannelsParams,
+  GetListOfCurrenciesParams,
   GetListOfFamiliesParams,
   GetListOfFamilyVariantsParams,
+  GetListOfLocalesParams,
+  GetListOfMediaFilesParams,
   GetListOfProductModelsParams,
   GetListOfProductsParams,
+  GetListOfProductsUuidParams,
+  GetListOfPublishedProductsParams,
   GetListOfReferenceEntitiesParams,
+  GetListOfReferenceEntityAttributeOptionsParams,
+  GetListOfReferenceEntityAttributesParams,
   GetListOfReferenceEntityRecordsParams,
+  GetLocaleParams,
+  GetMediaFileParams,
+  GetProductDraftParams,
+  GetProductModelDraftParams,
   GetProductModelParams,
   GetProductParams,
+  GetProductUuidParams,
+  GetPublishedProductParams,
+  GetReferenceEntityAttributeOptionParams,
+  GetReferenceEntityAttributeParams,
+  GetReferenceEntityParams,
+  GetReferenceEntityRecordParams,
+  LaunchJobParams,
+  RemoveAttributeFromFamilyParams,
+  SubmitProductDraftForApprovalParams,
+  SubmitProductModelDraftForApprovalParams,
+  UpdateCatalogProductMappingSchemaParams,
+  UploadAssetMediaFileParams,
+  UploadProductMediaFileParams,
+  UploadReferenceEntityMediaFileParams,
+  UpsertAssetAttributeOptionParams,
+  UpsertAssetAttributeParams,
+  UpsertAssetFamilyParams,
+  UpsertAssetParams,
+  UpsertAssociationTypeParams,
+  UpsertAttributeGroupParams,
+  UpsertAttributeOptionParams,
+  UpsertAttributeParams,
+  UpsertCategoryParams,
+  UpsertChannelParams,
+  UpsertFamilyParams,
+  UpsertFamilyVariantParams,
+  UpsertListOfAssetsParams,
+  UpsertListOfAssociationTypesParams,
+  UpsertListOfAttributeGroupsParams,
+  UpsertListOfAttributeOptionsParams,
+  UpsertListOfAttributesParams,
+  UpsertListOfCategoriesParams,
+  UpsertListOfChannelsParams,
+  UpsertListOfFamiliesParams,
+  UpsertListOfFamilyVariantsParams,
+  UpsertListOfMeasurementFamiliesParams,
+  UpsertListOfProductModelsParams,
+  UpsertListOfProductsParams,
+  UpsertListOfProductsUuidParams,
+  UpsertListOfReferenceEntityRecordsParams,
+  UpsertProductModelParams,
+  UpsertProductParams,
+  UpsertProductUuidParams,
+  UpsertReferenceEntityAttributeOptionParams,
+  UpsertReferenceEntityAttributeParams,
+  UpsertReferenceEntityParams,
+  UpsertReferenceEntityRecordParams,
 } from './types'
 import {
   AkeneoAuth,
   Asset,
+  AssociationType,
   Attribute,
+  AttributeGroup,
   AttributeOption,
   Category,
+  Channel,
   Family,
   FamilyVariant,
   ReferenceEntity,
   ReferenceEntityRecord,
 } from '../'
 import { AkeneoError } from '../error'
-import { DEFAULT_429_DELAY_MS, DEFAULT_REQUEST_TIMEOUT_MS } from '../constants'
-import { calculateDelay } from '../utils'
+import { DEFAULT_429_DELAY_MS, DEFAULT_REQUEST_TIMEOUT_MS, MAX_ITEMS_PER_BULK_REQUEST } from '../constants'
+import {
+  buildAddAttributeToFamilyPatch,
+  buildRemoveAttributeFromFamilyPatch,
+  calculateDelay,
+  createMultipartData,
+  formatValidationErrors,
+  getCapabilities,
+  getUnsupportedQueryParameters,
+  parseNdjson,
+  readFileContent,
+  toNdjson,
+  validateAttribute,
+} from '../utils'
+import { extractAxiosHeaders } from '../utils/extract-headers'
 import { Status } from '@tshttp/status'
-import { Product, ProductModel, Results } from '../types'
+import type { Readable } from 'stream'
+import {
+  AkeneoCapabilities,
+  AssetAttribute,
+  AssetAttributeOption,
+  AssetFamily,
+  BulkUpsertItemResult,
+  BulkUpsertLineResult,
+  Catalog,
+  Currency,
+  JobExecution,
+  LocaleDefinition,
+  MeasurementFamily,
+  MediaFile,
+  MediaFileWriteResponse,
+  Product,
+  ProductModel,
+  ProductUuid,
+  ReferenceEntityAttribute,
+  ReferenceEntityAttributeOption,
+  Results,
+  SystemInformation,
+  ValidationError,
+  WriteResponse,
+} from '../types'
 
 export interface FetchOptions<T = Record<string, any>> {
   /**
@@ -86,7 +225,7 @@ export interface FetchOptions<T = Record<string, any>> {
   /**
    * HTTP method to use when sending the request
    */
-  method: 'GET' | 'POST' | 'PATCH' | 'DELETE' | 'HEAD'
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD'
 
   /**
    * Querystring parameters to send with the request
@@ -102,9 +241,20 @@ export interface FetchOptions<T = Record<string, any>> {
    * Plain JavaScript object containing the payload to send as JSON
    *
    * This object will be converted to a JSON string and sent as the body
-   * of a `POST` or `DELETE` request.
+   * of a `POST` or `DELETE` request. A string is sent as-is, which is
+   * how newline delimited JSON is sent for bulk requests. A `Buffer` or
+   * `FormData` object is sent as-is, which is how files are uploaded.
+   */
+  data?: T | string | Buffer | FormData
+
+  /**
+   * The type of data that akeneo will respond with
+   *
+   * Defaults to JSON. Set this to `text` when the response body is not a
+   * single JSON document, e.g. the newline delimited JSON returned from a
+   * bulk request.
    */
-  data?: T
+  responseType?: ResponseType
 
   /**
    * Request retry configuration
@@ -128,6 +278,21 @@ const DEFAULT_RETRY_CONFIG: Required<AkeneoRetryConfig> = {
   jitter: false,
 }
 
+/**
+ * Capabilities with every feature disabled. Any query parameter that's
+ * unsupported given these capabilities depends on the version or edition.
+ */
+const NO_CAPABILITIES: AkeneoCapabilities = {
+  with_attribute_options: false,
+  with_completenesses: false,
+  with_enriched_attributes: false,
+  with_position: false,
+  with_quality_scores: false,
+  with_table_select_options: false,
+  uuid_products: false,
+  asset_families: false,
+}
+
 /**
  * List of status codes which are allowed to retry
  */
@@ -170,53 +335,1450 @@ export interface CommonRequestOptions {
  * A collection of convenience methods for interacting with the
  * akeneo API.
  */
-export class AkeneoApi {
+export class AkeneoApi<C extends AkeneoApiConfig | AkeneoAppApiConfig = AkeneoApiConfig> {
   /**
    * This is the instance of the {@see AkeneoAuth} class that
    * this class uses internally. It's exposed publicly so that it can
    * be used by consumer's of this class in order to access authorization
-   * API related functionality.
+   * API related functionality. It's undefined when an app access token
+   * is passed in via {@see AkeneoAppApiConfig}.
+   */
+  public readonly auth: AkeneoApiAuth<C>
+
+  /**
+   * The configuration passed in to the constructor.
+   */
+  public readonly config: C
+
+  /**
+   * The API endpoint
+   */
+  public readonly endpoint: string
+
+  /**
+   * axios instance
+   */
+  private readonly axios: AxiosInstance
+
+  /**
+   * The default retry configuration for the instance. This can be overridden
+   * on a method by method basis.
+   */
+  private readonly retry: AkeneoRetryConfig
+
+  /**
+   * The system information of the PIM, which is only requested the first time
+   * it's needed. Resolves to `undefined` if the PIM doesn't expose it.
+   */
+  private systemInformation?: Promise<SystemInformation | undefined>
+
+  constructor(config: C) {
+    AkeneoApi.validateConfig(config)
+    this.config = config
+    this.auth = ('accessToken' in config ? undefined : new AkeneoAuth(config)) as AkeneoApiAuth<C>
+    this.endpoint = `${this.config.endpoint}/api/rest/v1`
+    this.axios = this.createAxiosInstance()
+    this.retry = { ...DEFAULT_RETRY_CONFIG, ...config.retry }
+  }
+
+  /**
+   * Get a list of categories
+   * https://api.akeneo.com/api-reference.html#get_categories
+   */
+  async getListOfCategories(options: GetListOfCategoriesParams): Promise<Results<Category>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/categories`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a category
+   * https://api.akeneo.com/api-reference.html#get_categories__code_
+   */
+  getCategory(options: GetCategoryParams): Promise<Category> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/categories/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Create a new category
+   * https://api.akeneo.com/api-reference.html#post_categories
+   */
+  createCategory(options: CreateCategoryParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/categories`,
+      method: 'POST',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create a category
+   * https://api.akeneo.com/api-reference.html#patch_categories__code_
+   */
+  upsertCategory(options: UpsertCategoryParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/categories/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create several categories at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_categories
+   */
+  upsertListOfCategories(options: UpsertListOfCategoriesParams): Promise<BulkUpsertLineResult[]> {
+    return this.bulkUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/categories`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Get a product
+   * https://api.akeneo.com/api-reference.html#get_products__code_
+   */
+  getProduct(options: CommonRequestOptions & GetProductParams): Promise<Product> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products/${options.code}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Delete a product
+   * https://api.akeneo.com/api-reference.html#delete_products__code_
+   */
+  deleteProduct(options: CommonRequestOptions & DeleteProductParams): Promise<void> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products/${options.code}`,
+      method: 'DELETE',
+    })
+  }
+
+  /**
+   * Create a new product
+   * https://api.akeneo.com/api-reference.html#post_products
+   */
+  createProduct(options: CreateProductParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products`,
+      method: 'POST',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create a product
+   * https://api.akeneo.com/api-reference.html#patch_products__code_
+   */
+  upsertProduct(options: UpsertProductParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create several products at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_products
+   */
+  upsertListOfProducts(options: UpsertListOfProductsParams): Promise<BulkUpsertLineResult[]> {
+    return this.bulkUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Get the draft of a product, for users without own permissions on it (Enterprise Edition only)
+   * https://api.akeneo.com/api-reference.html#get_draft__code_
+   */
+  getProductDraft(options: GetProductDraftParams): Promise<Product> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products/${encodeURIComponent(options.code)}/draft`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Submit the draft of a product for approval (Enterprise Edition only)
+   * https://api.akeneo.com/api-reference.html#post_proposal
+   */
+  submitProductDraftForApproval(options: SubmitProductDraftForApprovalParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products/${encodeURIComponent(options.code)}/proposal`,
+      method: 'POST',
+      data: {},
+    })
+  }
+
+  /**
+   * Get a list of products
+   * https://api.akeneo.com/api-reference.html#get_products
+   */
+  async getListOfProducts(options?: GetListOfProductsParams): Promise<Results<Product>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a product by its UUID
+   * https://api.akeneo.com/api-reference.html#get_products_uuid__uuid_
+   */
+  getProductUuid(options: GetProductUuidParams): Promise<ProductUuid> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products-uuid/${encodeURIComponent(options.uuid)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Delete a product by its UUID
+   * https://api.akeneo.com/api-reference.html#delete_products_uuid__uuid_
+   */
+  deleteProductUuid(options: DeleteProductUuidParams): Promise<void> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products-uuid/${encodeURIComponent(options.uuid)}`,
+      method: 'DELETE',
+    })
+  }
+
+  /**
+   * Create a new product identified by its UUID
+   * https://api.akeneo.com/api-reference.html#post_products_uuid
+   */
+  createProductUuid(options: CreateProductUuidParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products-uuid`,
+      method: 'POST',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create a product identified by its UUID
+   * https://api.akeneo.com/api-reference.html#patch_products_uuid__uuid_
+   */
+  upsertProductUuid(options: UpsertProductUuidParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products-uuid/${encodeURIComponent(options.uuid)}`,
+      method: 'PATCH',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create several products identified by their UUID at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_products_uuid
+   */
+  upsertListOfProductsUuid(options: UpsertListOfProductsUuidParams): Promise<BulkUpsertLineResult[]> {
+    return this.bulkUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products-uuid`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Get a list of products identified by their UUID
+   * https://api.akeneo.com/api-reference.html#get_products_uuid
+   */
+  async getListOfProductsUuid(options?: GetListOfProductsUuidParams): Promise<Results<ProductUuid>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/products-uuid`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a published product (Enterprise Edition only)
+   * https://api.akeneo.com/api-reference.html#get_published_products__code_
+   */
+  getPublishedProduct(options: GetPublishedProductParams): Promise<Product> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/published-products/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Get a list of published products (Enterprise Edition only)
+   * https://api.akeneo.com/api-reference.html#get_published_products
+   */
+  async getListOfPublishedProducts(options?: GetListOfPublishedProductsParams): Promise<Results<Product>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/published-products`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a product model
+   * https://api.akeneo.com/api-reference.html#get_product_models__code_
+   */
+  getProductModel(options: CommonRequestOptions & GetProductModelParams): Promise<ProductModel> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/product-models/${options.code}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Delete a product model
+   * https://api.akeneo.com/api-reference.html#delete_product_models__code_
+   */
+  deleteProductModel(options: DeleteProductModelParams): Promise<void> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/product-models/${options.code}`,
+      method: 'DELETE',
+    })
+  }
+
+  /**
+   * Create a new product model
+   * https://api.akeneo.com/api-reference.html#post_product_models
    */
-  public readonly auth: AkeneoAuth
+  createProductModel(options: CreateProductModelParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/product-models`,
+      method: 'POST',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create a product model
+   * https://api.akeneo.com/api-reference.html#patch_product_models__code_
+   */
+  upsertProductModel(options: UpsertProductModelParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/product-models/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create several product models at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_product_models
+   */
+  upsertListOfProductModels(options: UpsertListOfProductModelsParams): Promise<BulkUpsertLineResult[]> {
+    return this.bulkUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/product-models`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Get the draft of a product model, for users without own permissions on it (Enterprise Edition only)
+   * https://api.akeneo.com/api-reference.html#get_product_models__code__draft
+   */
+  getProductModelDraft(options: GetProductModelDraftParams): Promise<ProductModel> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/product-models/${encodeURIComponent(options.code)}/draft`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Submit the draft of a product model for approval (Enterprise Edition only)
+   * https://api.akeneo.com/api-reference.html#post_product_model_proposal
+   */
+  submitProductModelDraftForApproval(options: SubmitProductModelDraftForApprovalParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/product-models/${encodeURIComponent(options.code)}/proposal`,
+      method: 'POST',
+      data: {},
+    })
+  }
+
+  /**
+   * Get a list of families
+   * https://api.akeneo.com/api-reference.html#get_families
+   */
+  async getListOfFamilies(options?: GetListOfFamiliesParams): Promise<Results<Family>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/families`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a family
+   * https://api.akeneo.com/api-reference.html#get_families__code_
+   */
+  async getFamily(options: GetFamilyParams): Promise<Family> {
+    return await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/families/${options.code}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Create a new family
+   * https://api.akeneo.com/api-reference.html#post_families
+   */
+  createFamily(options: CreateFamilyParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/families`,
+      method: 'POST',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create a family
+   * https://api.akeneo.com/api-reference.html#patch_families__code_
+   */
+  upsertFamily(options: UpsertFamilyParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/families/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create several families at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_families
+   */
+  upsertListOfFamilies(options: UpsertListOfFamiliesParams): Promise<BulkUpsertLineResult[]> {
+    return this.bulkUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/families`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Add an attribute to a family, optionally making it required for the given channels.
+   * The family is fetched first, so that only the changed properties are sent in the patch.
+   */
+  async addAttributeToFamily(options: AddAttributeToFamilyParams): Promise<WriteResponse> {
+    const family = await this.getFamily({ code: options.familyCode, retry: options.retry })
+    return this.upsertFamily({
+      code: options.familyCode,
+      data: buildAddAttributeToFamilyPatch(family, options.attributeCode, options.requiredForChannels),
+      retry: options.retry,
+    })
+  }
+
+  /**
+   * Remove an attribute from a family, or only from its requirements for the given channels.
+   * The family is fetched first, so that only the changed properties are sent in the patch.
+   */
+  async removeAttributeFromFamily(options: RemoveAttributeFromFamilyParams): Promise<WriteResponse> {
+    const family = await this.getFamily({ code: options.familyCode, retry: options.retry })
+    return this.upsertFamily({
+      code: options.familyCode,
+      data: buildRemoveAttributeFromFamilyPatch(family, options.attributeCode, options.channels),
+      retry: options.retry,
+    })
+  }
+
+  /**
+   * Get a list of family variants
+   * https://api.akeneo.com/api-reference.html#get_families__family_code__variants
+   */
+  async getListOfFamilyVariants(options: GetListOfFamilyVariantsParams): Promise<Results<FamilyVariant>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/families/${encodeURIComponent(options.code)}/variants`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a family variant
+   * https://api.akeneo.com/api-reference.html#get_families__family_code__variants__code_
+   */
+  getFamilyVariant(options: GetFamilyVariantParams): Promise<FamilyVariant> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/families/${encodeURIComponent(options.familyCode)}/variants/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Create a new family variant
+   * https://api.akeneo.com/api-reference.html#post_families__family_code__variants
+   */
+  async createFamilyVariant(options: CreateFamilyVariantParams): Promise<WriteResponse> {
+    try {
+      return await this.writeRequest({
+        ...this.extractCommonRequestOptions(options),
+        path: `/families/${encodeURIComponent(options.familyCode)}/variants`,
+        method: 'POST',
+        data: options.data,
+      })
+    } catch (error) {
+      throw this.toReadableValidationError(error, `The \`${options.data.code}\` family variant`)
+    }
+  }
+
+  /**
+   * Update/create a family variant
+   * https://api.akeneo.com/api-reference.html#patch_families__family_code__variants__code_
+   */
+  async upsertFamilyVariant(options: UpsertFamilyVariantParams): Promise<WriteResponse> {
+    try {
+      return await this.writeRequest({
+        ...this.extractCommonRequestOptions(options),
+        path: `/families/${encodeURIComponent(options.familyCode)}/variants/${encodeURIComponent(options.code)}`,
+        method: 'PATCH',
+        data: options.data,
+      })
+    } catch (error) {
+      throw this.toReadableValidationError(error, `The \`${options.code}\` family variant`)
+    }
+  }
+
+  /**
+   * Update/create several family variants of a family at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_families__family_code__variants
+   */
+  upsertListOfFamilyVariants(options: UpsertListOfFamilyVariantsParams): Promise<BulkUpsertLineResult[]> {
+    return this.bulkUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/families/${encodeURIComponent(options.familyCode)}/variants`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Get a list of product models
+   * https://api.akeneo.com/api-reference.html#get_product_models
+   */
+  async getListOfProductModels(options?: GetListOfProductModelsParams): Promise<Results<ProductModel>> {
+    const response = await this.request<Results<ProductModel>>({
+      ...this.extractCommonRequestOptions(options),
+      path: `/product-models`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get list of attributes
+   * https://api.akeneo.com/api-reference.html#get_attributes__attribute_code__options
+   */
+  async getListOfAttributes(options: CommonRequestOptions & GetListOfAttributesParams): Promise<Results<Attribute>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attributes`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get an attribute
+   * https://api.akeneo.com/api-reference.html#get_attributes__code_
+   */
+  getAttribute(options: GetAttributeParams): Promise<Attribute> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attributes/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Create a new attribute
+   * https://api.akeneo.com/api-reference.html#post_attributes
+   */
+  async createAttribute(options: CreateAttributeParams): Promise<WriteResponse> {
+    validateAttribute(options.data, true)
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attributes`,
+      method: 'POST',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create an attribute
+   * https://api.akeneo.com/api-reference.html#patch_attributes__code_
+   */
+  async upsertAttribute(options: UpsertAttributeParams): Promise<WriteResponse> {
+    validateAttribute(options.data)
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attributes/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create several attributes at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_attributes
+   */
+  async upsertListOfAttributes(options: UpsertListOfAttributesParams): Promise<BulkUpsertLineResult[]> {
+    options.data.forEach((attribute) => validateAttribute(attribute))
+    return this.bulkUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attributes`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Get list of attribute options
+   * https://api.akeneo.com/api-reference.html#get_attributes__attribute_code__options
+   */
+  async getListOfAttributeOptions(
+    options: CommonRequestOptions & GetListOfAttributeOptionsParams,
+  ): Promise<Results<AttributeOption>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attributes/${options.attributeCode}/options`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get an attribute option
+   * https://api.akeneo.com/api-reference.html#get_attributes__attribute_code__options__code_
+   */
+  getAttributeOption(options: GetAttributeOptionParams): Promise<AttributeOption> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attributes/${encodeURIComponent(options.attributeCode)}/options/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Create a new attribute option
+   * https://api.akeneo.com/api-reference.html#post_attributes__attribute_code__options
+   */
+  createAttributeOption(options: CreateAttributeOptionParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attributes/${encodeURIComponent(options.attributeCode)}/options`,
+      method: 'POST',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create an attribute option
+   * https://api.akeneo.com/api-reference.html#patch_attributes__attribute_code__options__code_
+   */
+  upsertAttributeOption(options: UpsertAttributeOptionParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attributes/${encodeURIComponent(options.attributeCode)}/options/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create several attribute options at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_attributes__attribute_code__options
+   */
+  upsertListOfAttributeOptions(options: UpsertListOfAttributeOptionsParams): Promise<BulkUpsertLineResult[]> {
+    return this.bulkUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attributes/${encodeURIComponent(options.attributeCode)}/options`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Get a list of attribute groups
+   * https://api.akeneo.com/api-reference.html#get_attribute_groups
+   */
+  async getListOfAttributeGroups(options?: GetListOfAttributeGroupsParams): Promise<Results<AttributeGroup>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attribute-groups`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get an attribute group
+   * https://api.akeneo.com/api-reference.html#get_attribute_groups__code_
+   */
+  getAttributeGroup(options: GetAttributeGroupParams): Promise<AttributeGroup> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attribute-groups/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Create a new attribute group
+   * https://api.akeneo.com/api-reference.html#post_attribute_groups
+   */
+  createAttributeGroup(options: CreateAttributeGroupParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attribute-groups`,
+      method: 'POST',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create an attribute group
+   * https://api.akeneo.com/api-reference.html#patch_attribute_groups__code_
+   */
+  upsertAttributeGroup(options: UpsertAttributeGroupParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attribute-groups/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create several attribute groups at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_attribute_groups
+   */
+  upsertListOfAttributeGroups(options: UpsertListOfAttributeGroupsParams): Promise<BulkUpsertLineResult[]> {
+    return this.bulkUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/attribute-groups`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Get a list of association types
+   * https://api.akeneo.com/api-reference.html#get_association_types
+   */
+  async getListOfAssociationTypes(options?: GetListOfAssociationTypesParams): Promise<Results<AssociationType>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/association-types`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get an association type
+   * https://api.akeneo.com/api-reference.html#get_association_types__code_
+   */
+  getAssociationType(options: GetAssociationTypeParams): Promise<AssociationType> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/association-types/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Create a new association type
+   * https://api.akeneo.com/api-reference.html#post_association_types
+   */
+  createAssociationType(options: CreateAssociationTypeParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/association-types`,
+      method: 'POST',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create an association type
+   * https://api.akeneo.com/api-reference.html#patch_association_types__code_
+   */
+  upsertAssociationType(options: UpsertAssociationTypeParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/association-types/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create several association types at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_association_types
+   */
+  upsertListOfAssociationTypes(options: UpsertListOfAssociationTypesParams): Promise<BulkUpsertLineResult[]> {
+    return this.bulkUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/association-types`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Get a list of channels
+   * https://api.akeneo.com/api-reference.html#get_channels
+   */
+  async getListOfChannels(options?: GetListOfChannelsParams): Promise<Results<Channel>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/channels`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a channel
+   * https://api.akeneo.com/api-reference.html#get_channels__code_
+   */
+  getChannel(options: GetChannelParams): Promise<Channel> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/channels/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Create a new channel
+   * https://api.akeneo.com/api-reference.html#post_channels
+   */
+  createChannel(options: CreateChannelParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/channels`,
+      method: 'POST',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create a channel
+   * https://api.akeneo.com/api-reference.html#patch_channels__code_
+   */
+  upsertChannel(options: UpsertChannelParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/channels/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Update/create several channels at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_channels
+   */
+  upsertListOfChannels(options: UpsertListOfChannelsParams): Promise<BulkUpsertLineResult[]> {
+    return this.bulkUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/channels`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Get a list of locales
+   * https://api.akeneo.com/api-reference.html#get_locales
+   */
+  async getListOfLocales(options?: GetListOfLocalesParams): Promise<Results<LocaleDefinition>> {
+    const commonOptions = this.extractCommonRequestOptions(options)
+    if (options?.enabled !== undefined && !commonOptions.params?.search) {
+      commonOptions.params = {
+        ...commonOptions.params,
+        search: JSON.stringify({ enabled: [{ operator: '=', value: options.enabled }] }),
+      }
+    }
+    const response = await this.request({
+      ...commonOptions,
+      path: `/locales`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a locale
+   * https://api.akeneo.com/api-reference.html#get_locales__code_
+   */
+  getLocale(options: GetLocaleParams): Promise<LocaleDefinition> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/locales/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Get a list of currencies
+   * https://api.akeneo.com/api-reference.html#get_currencies
+   */
+  async getListOfCurrencies(options?: GetListOfCurrenciesParams): Promise<Results<Currency>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/currencies`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a currency
+   * https://api.akeneo.com/api-reference.html#get_currencies__code_
+   */
+  getCurrency(options: GetCurrencyParams): Promise<Currency> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/currencies/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Get the list of measurement families. This list is not paginated.
+   * https://api.akeneo.com/api-reference.html#get_measurement_families
+   */
+  getListOfMeasurementFamilies(options?: CommonRequestOptions): Promise<MeasurementFamily[]> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/measurement-families`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Update/create several measurement families at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_measurement_families
+   */
+  upsertListOfMeasurementFamilies(options: UpsertListOfMeasurementFamiliesParams): Promise<BulkUpsertItemResult[]> {
+    return this.bulkJsonUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/measurement-families`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Get a list of product media files
+   * https://api.akeneo.com/api-reference.html#get_media_files
+   */
+  async getListOfMediaFiles(options?: GetListOfMediaFilesParams): Promise<Results<MediaFile>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/media-files`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a product media file
+   * https://api.akeneo.com/api-reference.html#get_media_files__code_
+   */
+  getMediaFile(options: GetMediaFileParams): Promise<MediaFile> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/media-files/${options.code}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Download a product media file. A stream is returned when running in
+   * nodejs, and a `Blob` when running in the browser.
+   * https://api.akeneo.com/api-reference.html#get_media_files__code__download
+   */
+  downloadMediaFile(options: DownloadMediaFileParams): Promise<Readable | Blob> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/media-files/${options.code}/download`,
+      method: 'GET',
+      responseType: this.getDownloadResponseType(),
+    })
+  }
+
+  /**
+   * Upload a new product media file and associate it to a product or product model value
+   * https://api.akeneo.com/api-reference.html#post_media_files
+   */
+  async uploadProductMediaFile(options: UploadProductMediaFileParams): Promise<MediaFileWriteResponse> {
+    if (!options.product === !options.productModel) {
+      throw new AkeneoError('Exactly one of the `product` or `productModel` properties must be provided')
+    }
+    const fields: Record<string, string> = options.product
+      ? { product: JSON.stringify(options.product) }
+      : { product_model: JSON.stringify(options.productModel) }
+    const multipart = await createMultipartData({ fields, file: options.file, filename: options.filename })
+    const response = await this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/media-files`,
+      method: 'POST',
+      headers: multipart.headers,
+      data: multipart.data,
+    })
+    return {
+      ...response,
+      code: response.location?.split('/media-files/')[1] ?? '',
+    }
+  }
+
+  /**
+   * Get a list of reference entities
+   * https://api.akeneo.com/api-reference.html#get_reference_entities
+   */
+  async getListOfReferenceEntities(
+    options: CommonRequestOptions & GetListOfReferenceEntitiesParams,
+  ): Promise<Results<ReferenceEntity>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a reference entity
+   * https://api.akeneo.com/api-reference.html#get_reference_entities__code_
+   */
+  getReferenceEntity(options: GetReferenceEntityParams): Promise<ReferenceEntity> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Update/create a reference entity
+   * https://api.akeneo.com/api-reference.html#patch_reference_entity__code_
+   */
+  upsertReferenceEntity(options: UpsertReferenceEntityParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: { ...options.data, code: options.code },
+    })
+  }
+
+  /**
+   * Get the list of attributes of a reference entity. This list is not paginated.
+   * https://api.akeneo.com/api-reference.html#get_reference_entity_attributes
+   */
+  getListOfReferenceEntityAttributes(
+    options: GetListOfReferenceEntityAttributesParams,
+  ): Promise<ReferenceEntityAttribute[]> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${encodeURIComponent(options.referenceEntityCode)}/attributes`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Get an attribute of a reference entity
+   * https://api.akeneo.com/api-reference.html#get_reference_entity_attributes__code_
+   */
+  getReferenceEntityAttribute(options: GetReferenceEntityAttributeParams): Promise<ReferenceEntityAttribute> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${encodeURIComponent(options.referenceEntityCode)}/attributes/${encodeURIComponent(
+        options.code,
+      )}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Update/create an attribute of a reference entity
+   * https://api.akeneo.com/api-reference.html#patch_reference_entity_attributes__code_
+   */
+  upsertReferenceEntityAttribute(options: UpsertReferenceEntityAttributeParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${encodeURIComponent(options.referenceEntityCode)}/attributes/${encodeURIComponent(
+        options.code,
+      )}`,
+      method: 'PATCH',
+      data: { ...options.data, code: options.code },
+    })
+  }
+
+  /**
+   * Get the list of options of a reference entity attribute. This list is not paginated.
+   * https://api.akeneo.com/api-reference.html#get_reference_entity_attributes__attribute_code__options
+   */
+  getListOfReferenceEntityAttributeOptions(
+    options: GetListOfReferenceEntityAttributeOptionsParams,
+  ): Promise<ReferenceEntityAttributeOption[]> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${encodeURIComponent(options.referenceEntityCode)}/attributes/${encodeURIComponent(
+        options.attributeCode,
+      )}/options`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Get an option of a reference entity attribute
+   * https://api.akeneo.com/api-reference.html#get_reference_entity_attributes__attribute_code__options__code_
+   */
+  getReferenceEntityAttributeOption(
+    options: GetReferenceEntityAttributeOptionParams,
+  ): Promise<ReferenceEntityAttributeOption> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${encodeURIComponent(options.referenceEntityCode)}/attributes/${encodeURIComponent(
+        options.attributeCode,
+      )}/options/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Update/create an option of a reference entity attribute
+   * https://api.akeneo.com/api-reference.html#patch_reference_entity_attributes__attribute_code__options__code_
+   */
+  upsertReferenceEntityAttributeOption(options: UpsertReferenceEntityAttributeOptionParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${encodeURIComponent(options.referenceEntityCode)}/attributes/${encodeURIComponent(
+        options.attributeCode,
+      )}/options/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: { ...options.data, code: options.code },
+    })
+  }
+
+  /**
+   * Get a list of reference entity records
+   * https://api.akeneo.com/api-reference.html#get_reference_entity_records
+   */
+  async getListOfReferenceEntityRecords(
+    options: GetListOfReferenceEntityRecordsParams,
+  ): Promise<Results<ReferenceEntityRecord>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${options.referenceEntityCode}/records`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get a reference entity record
+   * https://api.akeneo.com/api-reference.html#get_reference_entity_records__code_
+   */
+  getReferenceEntityRecord(options: GetReferenceEntityRecordParams): Promise<ReferenceEntityRecord> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${encodeURIComponent(options.referenceEntityCode)}/records/${encodeURIComponent(
+        options.code,
+      )}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Update/create a reference entity record
+   * https://api.akeneo.com/api-reference.html#patch_reference_entity_records__code_
+   */
+  upsertReferenceEntityRecord(options: UpsertReferenceEntityRecordParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${encodeURIComponent(options.referenceEntityCode)}/records/${encodeURIComponent(
+        options.code,
+      )}`,
+      method: 'PATCH',
+      data: { ...options.data, code: options.code },
+    })
+  }
+
+  /**
+   * Update/create several records of a reference entity at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_reference_entity_records
+   */
+  upsertListOfReferenceEntityRecords(
+    options: UpsertListOfReferenceEntityRecordsParams,
+  ): Promise<BulkUpsertItemResult[]> {
+    return this.bulkJsonUpsertRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities/${encodeURIComponent(options.referenceEntityCode)}/records`,
+      data: options.data,
+    })
+  }
+
+  /**
+   * Upload a new reference entity media file. The returned code can then be used
+   * as the value of an `image` attribute of a record, or as a reference entity image.
+   * https://api.akeneo.com/api-reference.html#post_reference_entity_media_files
+   */
+  async uploadReferenceEntityMediaFile(options: UploadReferenceEntityMediaFileParams): Promise<MediaFileWriteResponse> {
+    const multipart = await createMultipartData({ fields: {}, file: options.file, filename: options.filename })
+    const response = await this.requestWithResponse({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities-media-files`,
+      method: 'POST',
+      headers: multipart.headers,
+      data: multipart.data,
+    })
+    const headers = extractAxiosHeaders(response.headers)
+    return {
+      status: response.status,
+      location: headers?.location,
+      code: headers?.['reference-entities-media-file-code'] ?? '',
+    }
+  }
+
+  /**
+   * Download a reference entity media file. A stream is returned when running in
+   * nodejs, and a `Blob` when running in the browser.
+   * https://api.akeneo.com/api-reference.html#get_reference_entity_media_files__code_
+   */
+  downloadReferenceEntityMediaFile(options: DownloadReferenceEntityMediaFileParams): Promise<Readable | Blob> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/reference-entities-media-files/${options.code}`,
+      method: 'GET',
+      responseType: this.getDownloadResponseType(),
+    })
+  }
+
+  /**
+   * Get a list of asset families
+   * https://api.akeneo.com/api-reference.html#get_asset_families
+   */
+  async getListOfAssetFamilies(options?: GetListOfAssetFamiliesParams): Promise<Results<AssetFamily>> {
+    const response = await this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/asset-families`,
+      method: 'GET',
+    })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
+  }
+
+  /**
+   * Get an asset family
+   * https://api.akeneo.com/api-reference.html#get_asset_families__code_
+   */
+  getAssetFamily(options: GetAssetFamilyParams): Promise<AssetFamily> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/asset-families/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Update/create an asset family
+   * https://api.akeneo.com/api-reference.html#patch_asset_family__code_
+   */
+  upsertAssetFamily(options: UpsertAssetFamilyParams): Promise<WriteResponse> {
+    // Unlike the PIM endpoints, the asset manager endpoints require the code
+    // to be given in the request body as well as in the URL
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/asset-families/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: { ...options.data, code: options.code },
+    })
+  }
+
+  /**
+   * Get the list of attributes of an asset family. This list is not paginated.
+   * https://api.akeneo.com/api-reference.html#get_asset_family_attributes
+   */
+  getListOfAssetAttributes(options: GetListOfAssetAttributesParams): Promise<AssetAttribute[]> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/asset-families/${encodeURIComponent(options.assetFamilyCode)}/attributes`,
+      method: 'GET',
+    })
+  }
+
+  /**
+   * Get an attribute of an asset family
+   * https://api.akeneo.com/api-reference.html#get_asset_family_attributes__code_
+   */
+  getAssetAttribute(options: GetAssetAttributeParams): Promise<AssetAttribute> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/asset-families/${encodeURIComponent(options.assetFamilyCode)}/attributes/${encodeURIComponent(
+        options.code,
+      )}`,
+      method: 'GET',
+    })
+  }
 
   /**
-   * The configuration passed in to the constructor.
+   * Update/create an attribute of an asset family
+   * https://api.akeneo.com/api-reference.html#patch_asset_family_attributes__code_
    */
-  public readonly config: AkeneoApiConfig
+  upsertAssetAttribute(options: UpsertAssetAttributeParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/asset-families/${encodeURIComponent(options.assetFamilyCode)}/attributes/${encodeURIComponent(
+        options.code,
+      )}`,
+      method: 'PATCH',
+      data: { ...options.data, code: options.code },
+    })
+  }
 
   /**
-   * The API endpoint
+   * Get the list of options of an asset attribute. This list is not paginated.
+   * https://api.akeneo.com/api-reference.html#get_asset_family_attribute_options
    */
-  public readonly endpoint: string
+  getListOfAssetAttributeOptions(options: GetListOfAssetAttributeOptionsParams): Promise<AssetAttributeOption[]> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/asset-families/${encodeURIComponent(options.assetFamilyCode)}/attributes/${encodeURIComponent(
+        options.attributeCode,
+      )}/options`,
+      method: 'GET',
+    })
+  }
 
   /**
-   * axios instance
+   * Get an option of an asset attribute
+   * https://api.akeneo.com/api-reference.html#get_asset_family_attribute_options__code_
    */
-  private readonly axios: AxiosInstance
+  getAssetAttributeOption(options: GetAssetAttributeOptionParams): Promise<AssetAttributeOption> {
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: `/asset-families/${encodeURIComponent(options.assetFamilyCode)}/attributes/${encodeURIComponent(
+        options.attributeCode,
+      )}/options/${encodeURIComponent(options.code)}`,
+      method: 'GET',
+    })
+  }
 
   /**
-   * The default retry configuration for the instance. This can be overridden
-   * on a method by method basis.
+   * Update/create an option of an asset attribute
+   * https://api.akeneo.com/api-reference.html#patch_asset_family_attribute_options__code_
    */
-  private readonly retry: AkeneoRetryConfig
-
-  constructor(config: AkeneoApiConfig) {
-    AkeneoApi.validateConfig(config)
-    this.config = config
-    this.auth = new AkeneoAuth(config)
-    this.endpoint = `${this.config.endpoint}/api/rest/v1`
-    this.axios = this.createAxiosInstance()
-    this.retry = { ...DEFAULT_RETRY_CONFIG, ...config.retry }
+  upsertAssetAttributeOption(options: UpsertAssetAttributeOptionParams): Promise<WriteResponse> {
+    return this.writeRequest({
+      ...this.extractCommonRequestOptions(options),
+      path: `/asset-families/${encodeURIComponent(options.assetFamilyCode)}/attributes/${encodeURIComponent(
+        options.attributeCode,
+      )}/options/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: { ...options.data, code: options.code },
+    })
   }
 
   /**
-   * Get a list of categories
-   * https://api.akeneo.com/api-reference.html#get_categories
+   * Get a list of assets for a given asset family code
+   * https://api.akeneo.com/api-reference.html#get_assets__code_
    */
-  async getListOfCategories(options: GetListOfCategoriesParams): Promise<Results<Category>> {
+  async getListOfAssets(options: GetListOfAssetsParams): Promise<Results<Asset>> {
     const response = await this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/categories`,
+      path: `/asset-families/${options.assetFamilyCode}/assets`,
       method: 'GET',
     })
     if (options?.fetchAll) {
@@ -226,137 +1788,184 @@ export class AkeneoApi {
   }
 
   /**
-   * Get a product
-   * https://api.akeneo.com/api-reference.html#get_products__code_
+   * Get an asset based on it's code and asset family code
+   * https://api.akeneo.com/api-reference.html#get_assets__code_
    */
-  getProduct(options: CommonRequestOptions & GetProductParams): Promise<Product> {
-    return this.request({
+  async getAsset(options: GetAssetParams): Promise<Asset> {
+    return await this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/products/${options.code}`,
+      path: `/asset-families/${options.assetFamilyCode}/assets/${options.code}`,
       method: 'GET',
     })
   }
 
   /**
-   * Delete a product
-   * https://api.akeneo.com/api-reference.html#delete_products__code_
+   * Delete an asset based on it's code and asset family code
+   * https://api.akeneo.com/api-reference.html#delete_assets__code_
    */
-  deleteProduct(options: CommonRequestOptions & DeleteProductParams): Promise<void> {
-    return this.request({
+  async deleteAsset(options: DeleteAssetParams): Promise<void> {
+    return await this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/products/${options.code}`,
+      path: `/asset-families/${options.assetFamilyCode}/assets/${options.code}`,
       method: 'DELETE',
     })
   }
 
   /**
-   * Get a list of products
-   * https://api.akeneo.com/api-reference.html#get_products
+   * Update/create an asset
+   * https://api.akeneo.com/api-reference.html#patch_assets__code_
    */
-  async getListOfProducts(options?: GetListOfProductsParams): Promise<Results<Product>> {
-    const response = await this.request({
+  upsertAsset(options: UpsertAssetParams): Promise<WriteResponse> {
+    return this.writeRequest({
       ...this.extractCommonRequestOptions(options),
-      path: `/products`,
-      method: 'GET',
+      path: `/asset-families/${encodeURIComponent(options.assetFamilyCode)}/assets/${encodeURIComponent(options.code)}`,
+      method: 'PATCH',
+      data: { ...options.data, code: options.code },
     })
-    if (options?.fetchAll) {
-      await this.appendRemainingPages({ response })
-    }
-    return response
   }
 
   /**
-   * Get a product model
-   * https://api.akeneo.com/api-reference.html#get_product_models__code_
+   * Update/create several assets of an asset family at once (max 100 per call)
+   * https://api.akeneo.com/api-reference.html#patch_assets
    */
-  getProductModel(options: CommonRequestOptions & GetProductModelParams): Promise<ProductModel> {
-    return this.request({
+  upsertListOfAssets(options: UpsertListOfAssetsParams): Promise<BulkUpsertItemResult[]> {
+    return this.bulkJsonUpsertRequest({
       ...this.extractCommonRequestOptions(options),
-      path: `/product-models/${options.code}`,
-      method: 'GET',
+      path: `/asset-families/${encodeURIComponent(options.assetFamilyCode)}/assets`,
+      data: options.data,
     })
   }
 
   /**
-   * Delete a product model
-   * https://api.akeneo.com/api-reference.html#delete_product_models__code_
+   * Upload a new asset media file. The returned code can then be used as the
+   * value of a `media_file` attribute of an asset.
+   * https://api.akeneo.com/api-reference.html#post_asset_media_files
    */
-  deleteProductModel(options: DeleteProductModelParams): Promise<void> {
-    return this.request({
+  async uploadAssetMediaFile(options: UploadAssetMediaFileParams): Promise<MediaFileWriteResponse> {
+    const multipart = await createMultipartData({ fields: {}, file: options.file, filename: options.filename })
+    const response = await this.requestWithResponse({
       ...this.extractCommonRequestOptions(options),
-      path: `/product-models/${options.code}`,
-      method: 'DELETE',
+      path: `/asset-media-files`,
+      method: 'POST',
+      headers: multipart.headers,
+      data: multipart.data,
     })
+    const headers = extractAxiosHeaders(response.headers)
+    return {
+      status: response.status,
+      location: headers?.location,
+      code: headers?.['asset-media-file-code'] ?? '',
+    }
   }
 
   /**
-   * Get a list of families
-   * https://api.akeneo.com/api-reference.html#get_families
+   * Download an asset media file. A stream is returned when running in
+   * nodejs, and a `Blob` when running in the browser.
+   * https://api.akeneo.com/api-reference.html#get_asset_media_files__code_
    */
-  async getListOfFamilies(options?: GetListOfFamiliesParams): Promise<Results<Family>> {
-    const response = await this.request({
+  downloadAssetMediaFile(options: DownloadAssetMediaFileParams): Promise<Readable | Blob> {
+    return this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/families`,
+      path: `/asset-media-files/${options.code}`,
       method: 'GET',
+      responseType: this.getDownloadResponseType(),
     })
-    if (options?.fetchAll) {
-      await this.appendRemainingPages({ response })
-    }
-    return response
   }
 
   /**
-   * Get a family
-   * https://api.akeneo.com/api-reference.html#get_families__code_
+   * Launch an export job profile, returning the reference to the job execution
+   * https://api.akeneo.com/api-reference.html#post_jobs_export__code_
+   *
+   * Note that akeneo doesn't provide a public endpoint to check the status of
+   * a job execution, so there's no way to wait for the job to finish through
+   * the REST API. The link returned is the job execution page of the PIM's
+   * user interface.
    */
-  async getFamily(options: GetFamilyParams): Promise<Family> {
-    return await this.request({
+  launchExportJob(options: LaunchJobParams): Promise<JobExecution> {
+    return this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/families/${options.code}`,
-      method: 'GET',
+      path: `/jobs/export/${encodeURIComponent(options.code)}`,
+      method: 'POST',
     })
   }
 
   /**
-   * Get a list of family variants
-   * https://api.akeneo.com/api-reference.html#get_families__family_code__variants
+   * Launch an import job profile, returning the reference to the job execution
+   * https://api.akeneo.com/api-reference.html#post_jobs_import__code_
+   *
+   * As with {@see launchExportJob}, akeneo doesn't provide a public endpoint
+   * to check the status of the job execution.
    */
-  async getListOfFamilyVariants(options: GetListOfFamilyVariantsParams): Promise<Results<FamilyVariant>> {
-    const response = await this.request({
+  launchImportJob(options: LaunchJobParams): Promise<JobExecution> {
+    return this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/families/${encodeURIComponent(options.code)}/variants`,
-      method: 'GET',
+      path: `/jobs/import/${encodeURIComponent(options.code)}`,
+      method: 'POST',
     })
-    if (options?.fetchAll) {
-      await this.appendRemainingPages({ response })
-    }
-    return response
   }
 
   /**
-   * Get a list of product models
-   * https://api.akeneo.com/api-reference.html#get_product_models
+   * Get the version and edition of the PIM
+   * https://api.akeneo.com/api-reference.html#get_system_information
    */
-  async getListOfProductModels(options?: GetListOfProductModelsParams): Promise<Results<ProductModel>> {
-    const response = await this.request<Results<ProductModel>>({
+  getSystemInformation(options?: CommonRequestOptions): Promise<SystemInformation> {
+    return this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/product-models`,
+      path: `/system-information`,
       method: 'GET',
     })
-    if (options?.fetchAll) {
-      await this.appendRemainingPages({ response })
+  }
+
+  /**
+   * Get the features that are available on the PIM, based on its version and edition.
+   * The system information is requested once, and then cached for the lifetime of
+   * this instance. Resolves to `undefined` when the PIM is too old to expose its
+   * system information, or when it can't be retrieved, in which case we can't tell
+   * which features are available. Failures other than a `404` may be temporary,
+   * so the system information is requested again on the next call.
+   */
+  async getCapabilities(): Promise<AkeneoCapabilities | undefined> {
+    if (!this.systemInformation) {
+      this.systemInformation = this.getSystemInformation().catch((error) => {
+        if (error.status !== Status.NotFound) {
+          this.systemInformation = undefined
+        }
+        return undefined
+      })
     }
-    return response
+    const information = await this.systemInformation
+    return information ? getCapabilities(information) : undefined
   }
 
   /**
-   * Get list of attributes
-   * https://api.akeneo.com/api-reference.html#get_attributes__attribute_code__options
+   * Throw an {@see AkeneoError} if any of the given query parameters isn't supported
+   * by the PIM. The capabilities of the PIM are only requested when one of the
+   * parameters that depends on the version or edition is given.
    */
-  async getListOfAttributes(options: CommonRequestOptions & GetListOfAttributesParams): Promise<Results<Attribute>> {
+  async validateQueryParameters(params?: Record<string, any>) {
+    if (!getUnsupportedQueryParameters(params, NO_CAPABILITIES).length) {
+      return
+    }
+    const capabilities = await this.getCapabilities()
+    const unsupported = capabilities ? getUnsupportedQueryParameters(params, capabilities) : []
+    if (unsupported.length) {
+      const information = await this.systemInformation
+      throw new AkeneoError(
+        `The following query parameters are not supported by this PIM (${information?.edition} ${information?.version}): ` +
+          unsupported.map((name) => `\`${name}\``).join(', '),
+        { unsupported, systemInformation: information },
+      )
+    }
+  }
+
+  /**
+   * Get the list of catalogs of the app
+   * https://api.akeneo.com/api-reference.html#get_app_catalogs
+   */
+  async getListOfCatalogs(options?: GetListOfCatalogsParams): Promise<Results<Catalog>> {
     const response = await this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/attributes`,
+      path: `/catalogs`,
       method: 'GET',
     })
     if (options?.fetchAll) {
@@ -366,51 +1975,39 @@ export class AkeneoApi {
   }
 
   /**
-   * Get list of attribute options
-   * https://api.akeneo.com/api-reference.html#get_attributes__attribute_code__options
+   * Get a catalog of the app
+   * https://api.akeneo.com/api-reference.html#get_app_catalog
    */
-  async getListOfAttributeOptions(
-    options: CommonRequestOptions & GetListOfAttributeOptionsParams,
-  ): Promise<Results<AttributeOption>> {
-    const response = await this.request({
+  getCatalog(options: GetCatalogParams): Promise<Catalog> {
+    return this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/attributes/${options.attributeCode}/options`,
+      path: `/catalogs/${encodeURIComponent(options.id)}`,
       method: 'GET',
     })
-    if (options?.fetchAll) {
-      await this.appendRemainingPages({ response })
-    }
-    return response
   }
 
   /**
-   * Get a list of reference entities
-   * https://api.akeneo.com/api-reference.html#get_reference_entities
+   * Create a new catalog for the app. Unlike other resources, the created catalog
+   * is returned in the response body, as its identifier is generated by akeneo.
+   * https://api.akeneo.com/api-reference.html#post_app_catalog
    */
-  async getListOfReferenceEntities(
-    options: CommonRequestOptions & GetListOfReferenceEntitiesParams,
-  ): Promise<Results<ReferenceEntity>> {
-    const response = await this.request({
+  createCatalog(options: CreateCatalogParams): Promise<Catalog> {
+    return this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/reference-entities`,
-      method: 'GET',
+      path: `/catalogs`,
+      method: 'POST',
+      data: options.data,
     })
-    if (options?.fetchAll) {
-      await this.appendRemainingPages({ response })
-    }
-    return response
   }
 
   /**
-   * Get a list of reference entity records
-   * https://api.akeneo.com/api-reference.html#get_reference_entity_records
+   * Get the list of UUIDs of the products in a catalog
+   * https://api.akeneo.com/api-reference.html#get_app_catalog_product_uuids
    */
-  async getListOfReferenceEntityRecords(
-    options: GetListOfReferenceEntityRecordsParams,
-  ): Promise<Results<ReferenceEntityRecord>> {
+  async getListOfCatalogProductUuids(options: GetListOfCatalogProductUuidsParams): Promise<Results<string>> {
     const response = await this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/reference-entities/${options.referenceEntityCode}/records`,
+      path: `/catalogs/${encodeURIComponent(options.id)}/product-uuids`,
       method: 'GET',
     })
     if (options?.fetchAll) {
@@ -420,13 +2017,13 @@ export class AkeneoApi {
   }
 
   /**
-   * Get a list of assets for a given asset family code
-   * https://api.akeneo.com/api-reference.html#get_assets__code_
+   * Get the list of products in a catalog
+   * https://api.akeneo.com/api-reference.html#get_app_catalog_products
    */
-  async getListOfAssets(options: GetListOfAssetsParams): Promise<Results<Asset>> {
+  async getListOfCatalogProducts(options: GetListOfCatalogProductsParams): Promise<Results<ProductUuid>> {
     const response = await this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/asset-families/${options.assetFamilyCode}/assets`,
+      path: `/catalogs/${encodeURIComponent(options.id)}/products`,
       method: 'GET',
     })
     if (options?.fetchAll) {
@@ -436,26 +2033,34 @@ export class AkeneoApi {
   }
 
   /**
-   * Get an asset based on it's code and asset family code
-   * https://api.akeneo.com/api-reference.html#get_assets__code_
+   * Get the list of products in a catalog, mapped to the format described by
+   * the product mapping schema of the catalog
+   * https://api.akeneo.com/api-reference.html#get_app_catalog_mapped_products
    */
-  async getAsset(options: GetAssetParams): Promise<Asset> {
-    return await this.request({
+  async getListOfCatalogMappedProducts<T = Record<string, any>>(
+    options: GetListOfCatalogMappedProductsParams,
+  ): Promise<Results<T>> {
+    const response = await this.request({
       ...this.extractCommonRequestOptions(options),
-      path: `/asset-families/${options.assetFamilyCode}/assets/${options.code}`,
+      path: `/catalogs/${encodeURIComponent(options.id)}/mapped-products`,
       method: 'GET',
     })
+    if (options?.fetchAll) {
+      await this.appendRemainingPages({ response })
+    }
+    return response
   }
 
   /**
-   * Delete an asset based on it's code and asset family code
-   * https://api.akeneo.com/api-reference.html#delete_assets__code_
+   * Create/replace the product mapping schema of a catalog
+   * https://api.akeneo.com/api-reference.html#put_app_catalog_product_mapping_schema
    */
-  async deleteAsset(options: DeleteAssetParams): Promise<void> {
-    return await this.request({
+  updateCatalogProductMappingSchema(options: UpdateCatalogProductMappingSchemaParams): Promise<WriteResponse> {
+    return this.writeRequest({
       ...this.extractCommonRequestOptions(options),
-      path: `/asset-families/${options.assetFamilyCode}/assets/${options.code}`,
-      method: 'DELETE',
+      path: `/catalogs/${encodeURIComponent(options.id)}/mapping-schemas/product`,
+      method: 'PUT',
+      data: options.data,
     })
   }
 
@@ -485,10 +2090,34 @@ export class AkeneoApi {
     }
   }
 
-  getClientGrant() {
+  async getClientGrant() {
+    if (!this.auth) {
+      throw new AkeneoError('A client grant is not available when using an app access token')
+    }
     return this.auth.getClientGrant()
   }
 
+  /**
+   * Get the access token to send with each request. This is either the app
+   * access token passed in to the constructor, or the access token of the
+   * client grant (which is requested or refreshed as needed).
+   */
+  async getAccessToken(): Promise<string> {
+    if ('accessToken' in this.config) {
+      return this.config.accessToken
+    }
+    const grant = await this.getClientGrant()
+    return grant.accessToken
+  }
+
+  /**
+   * Binary files are returned as a stream in nodejs, but streams aren't
+   * available in the browser, so we fall back to a `Blob`.
+   */
+  getDownloadResponseType(): ResponseType {
+    return process.env.GEAKU_IS_BROWSER === '1' ? 'blob' : 'stream'
+  }
+
   /**
    * Define the base axios instance that forms the foundation
    * of all axios calls made by the {@see request} method.
@@ -525,6 +2154,91 @@ export class AkeneoApi {
    * Make the request to the akeneo REST API.
    */
   async request<R = any>(options: FetchOptions): Promise<R> {
+    const response = await this.requestWithResponse<R>(options)
+    return response.data
+  }
+
+  /**
+   * Make a request that creates or updates a single resource. Akeneo responds
+   * to these requests with an empty body, so we return the status code along
+   * with the `Location` header of the created/updated resource.
+   */
+  async writeRequest(options: FetchOptions): Promise<WriteResponse> {
+    const response = await this.requestWithResponse(options)
+    return {
+      status: response.status,
+      location: extractAxiosHeaders(response.headers)?.location,
+    }
+  }
+
+  /**
+   * Send a list of items to akeneo as newline delimited JSON, which is the
+   * format akeneo expects for bulk updates, and parse the line by line response.
+   *
+   * The request only fails as a whole if akeneo rejects the entire payload.
+   * Individual lines that fail are reported in the results, and can be picked
+   * out using {@see isFailedBulkResult}.
+   */
+  async bulkUpsertRequest(
+    options: CommonRequestOptions & { path: string; data: unknown[] },
+  ): Promise<BulkUpsertLineResult[]> {
+    this.validateBulkItemCount(options.data)
+    if (!options.data.length) {
+      return []
+    }
+    const response = await this.request<string>({
+      ...this.extractCommonRequestOptions(options),
+      path: options.path,
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/vnd.akeneo.collection+json' },
+      data: toNdjson(options.data),
+      responseType: 'text',
+    })
+    return parseNdjson<BulkUpsertLineResult>(response)
+  }
+
+  /**
+   * Send a list of items to akeneo as a JSON array. This is the format used
+   * for bulk updates by the endpoints that don't accept newline delimited JSON,
+   * such as measurement families. Akeneo responds with a JSON array containing
+   * the result for each item.
+   *
+   * As with {@see bulkUpsertRequest}, individual items that fail are reported
+   * in the results rather than causing the whole request to fail.
+   */
+  async bulkJsonUpsertRequest(
+    options: CommonRequestOptions & { path: string; data: Record<string, any>[] },
+  ): Promise<BulkUpsertItemResult[]> {
+    this.validateBulkItemCount(options.data)
+    if (!options.data.length) {
+      return []
+    }
+    return this.request({
+      ...this.extractCommonRequestOptions(options),
+      path: options.path,
+      method: 'PATCH',
+      data: options.data,
+    })
+  }
+
+  /**
+   * Ensure that we don't send more items than akeneo allows in a single bulk request
+   */
+  validateBulkItemCount(data: unknown[]) {
+    if (data.length > MAX_ITEMS_PER_BULK_REQUEST) {
+      throw new AkeneoError(
+        `A maximum of ${MAX_ITEMS_PER_BULK_REQUEST} items can be sent in a single bulk request, ` +
+          `but ${data.length} were given`,
+      )
+    }
+  }
+
+  /**
+   * Make the request to the akeneo REST API and return the full axios
+   * response, so that the status code and headers can be inspected.
+   */
+  async requestWithResponse<R = any>(options: FetchOptions): Promise<AxiosResponse<R>> {
+    await this.validateQueryParameters(options.params)
     const requestConfig = await this.getRequestOptions(options)
     const retryConfig = this.getRetryConfig(options.retry)
 
@@ -542,8 +2256,7 @@ export class AkeneoApi {
         await new Promise((resolve) => setTimeout(resolve, delay))
       }
       try {
-        const response = await this.axios(requestConfig)
-        return response.data
+        return await this.axios(requestConfig)
       } catch (error: any) {
         if (this.isRetryableError(error)) {
           if (error.response?.status === Status.TooManyRequests) {
@@ -555,12 +2268,12 @@ export class AkeneoApi {
           }
           lastError = error
         } else {
-          throw this.transformError(error)
+          throw this.transformError(await this.parseErrorResponse(error))
         }
       }
     } while (retryCount <= retryConfig.maxRetries && retry429Count <= retryConfig.max429Retries)
 
-    throw this.transformError(lastError)
+    throw this.transformError(await this.parseErrorResponse(lastError))
   }
 
   /**
@@ -599,11 +2312,11 @@ export class AkeneoApi {
     opts.path && delete opts.path
     opts.url && delete opts.url
 
-    const grant = await this.auth.getClientGrant()
+    const accessToken = await this.getAccessToken()
 
     const headers = {
       ...this.axios.defaults.headers,
-      Authorization: `Bearer ${grant.accessToken}`,
+      Authorization: `Bearer ${accessToken}`,
       ...opts.headers,
     }
     return { ...opts, url, headers }
@@ -645,6 +2358,30 @@ export class AkeneoApi {
     }
   }
 
+  /**
+   * Axios only parses the JSON body of an error response when the request
+   * expected a JSON response. For requests using another response type, such
+   * as the newline delimited bulk updates and the media file downloads, read
+   * and parse the body here so that akeneo's message and validation errors
+   * are available on the {@see AkeneoError}.
+   */
+  async parseErrorResponse(error: any) {
+    const response = error?.isAxiosError ? error.response : undefined
+    if (typeof Blob !== 'undefined' && response?.data instanceof Blob) {
+      response.data = await response.data.text()
+    } else if (typeof response?.data?.pipe === 'function') {
+      response.data = (await readFileContent(response.data)).toString()
+    }
+    if (typeof response?.data === 'string') {
+      try {
+        response.data = JSON.parse(response.data)
+      } catch (e) {
+        // Leave a body that isn't JSON as it is
+      }
+    }
+    return error
+  }
+
   /**
    * Transform an unknown error in to a {@see AkeneoError}
    * if the error we receive is from axios.
@@ -656,12 +2393,28 @@ export class AkeneoApi {
     return lastError
   }
 
+  /**
+   * Replace the generic message of a `422` {@see AkeneoError} with the list
+   * of validation errors returned by akeneo, so that it's clear which
+   * properties need fixing. Any other error is returned untouched.
+   */
+  toReadableValidationError(error: any, subject: string) {
+    const errors: ValidationError[] | undefined = error?.data?.response?.data?.errors
+    if (!error?.isAkeneoError || error.status !== Status.UnprocessableEntity || !errors?.length) {
+      return error
+    }
+    return new AkeneoError(`${subject} is not valid: \n` + formatValidationErrors(errors), error.data, error.status)
+  }
+
   /**
    * Ensure that all required properties on the {@see AkeneoApiConfig}
    * object have been populated. These are currently:
    *
    *   clientId: string
    *   clientSecret: string
+   *
+   * When an {@see AkeneoAppApiConfig} object is given, only the `endpoint`
+   * and `accessToken` properties are required.
    */
   public static validateConfig(config: any) {
     const errors: string[] = []
@@ -679,25 +2432,33 @@ export class AkeneoApi {
           errors.push('The `endpoint` property is not a valid URL')
         }
       }
-      if (!config.username) {
-        errors.push('The `username` property is empty')
-      } else if (typeof config.username !== 'string') {
-        errors.push('The `username` property must be a string')
-      }
-      if (!config.password) {
-        errors.push('The `password` property is empty')
-      } else if (typeof config.password !== 'string') {
-        errors.push('The `password` property must be a string')
-      }
-      if (!config.clientId) {
-        errors.push('The `clientId` property is empty')
-      } else if (typeof config.clientId !== 'string') {
-        errors.push('The `clientId` property must be a string')
-      }
-      if (!config.clientSecret) {
-        errors.push('The `clientSecret` property is empty')
-      } else if (typeof config.clientSecret !== 'string') {
-        errors.push('The `clientSecret` property must be a string')
+      if (typeof config === 'object' && 'accessToken' in config) {
+        if (!config.accessToken) {
+          errors.push('The `accessToken` property is empty')
+        } else if (typeof config.accessToken !== 'string') {
+          errors.push('The `accessToken` property must be a string')
+        }
+      } else {
+        if (!config.username) {
+          errors.push('The `username` property is empty')
+        } else if (typeof config.username !== 'string') {
+          errors.push('The `username` property must be a string')
+        }
+        if (!config.password) {
+          errors.push('The `password` property is empty')
+        } else if (typeof config.password !== 'string') {
+          errors.push('The `password` property must be a string')
+        }
+        if (!config.clientId) {
+          errors.push('The `clientId` property is empty')
+        } else if (typeof config.clientId !== 'string') {
+          errors.push('The `clientId` property must be a string')
+        }
+        if (!config.clientSecret) {
+          errors.push('The `clientSecret` property is empty')
+        } else if (typeof config.clientSecret !== 'string') {
+          errors.push('The `clientSecret` property must be a string')
+        }
       }
     }
 
@@ -1,7 +1,47 @@
 import * as https from 'https'
-import { AkeneoAuthConfig } from '../auth'
+import { AkeneoAuth, AkeneoAuthConfig } from '../auth'
 import { CommonRequestOptions } from './AkeneoApi'
-import { PaginationType } from '../types'
+import { UploadableFile } from '../utils'
+import {
+  Asset,
+  AssetAttributeOptionPayload,
+  AssetAttributePayload,
+  AssetFamilyPayload,
+  AssetPayload,
+  AssociationType,
+  AssociationTypePayload,
+  Attribute,
+  AttributeGroup,
+  AttributeGroupPayload,
+  AttributeOption,
+  AttributeOptionPayload,
+  AttributePayload,
+  CatalogPayload,
+  CatalogProductMappingSchema,
+  Category,
+  CategoryPayload,
+  Channel,
+  ChannelCode,
+  ChannelPayload,
+  Family,
+  FamilyPayload,
+  FamilyVariant,
+  FamilyVariantPayload,
+  Locale,
+  MeasurementFamily,
+  MeasurementFamilyPayload,
+  PaginationType,
+  Product,
+  ProductModel,
+  ProductModelPayload,
+  ProductPayload,
+  ProductUuid,
+  ProductUuidPayload,
+  ReferenceEntityAttributeOptionPayload,
+  ReferenceEntityAttributePayload,
+  ReferenceEntityPayload,
+  ReferenceEntityRecord,
+} from '../types'
 
 /**
  * Configuration for constructing the {@see AkeneoApi} class.
@@ -11,6 +51,26 @@ export interface AkeneoApiConfig extends AkeneoAuthConfig {
   httpsAgent?: https.Agent
 }
 
+/**
+ * Configuration for constructing the {@see AkeneoApi} class when running as an
+ * Akeneo App, using the access token obtained through {@see AkeneoAppAuth}.
+ */
+export interface AkeneoAppApiConfig {
+  endpoint: string
+  accessToken: string
+  timeoutMs?: number
+  retry?: AkeneoRetryConfig
+  httpsAgent?: https.Agent
+}
+
+/**
+ * The type of {@see AkeneoApi.auth}, which is only available when the API authenticates
+ * using the credentials of a connection, rather than an {@see AkeneoAppApiConfig} access token.
+ */
+export type AkeneoApiAuth<C extends AkeneoApiConfig | AkeneoAppApiConfig> = C extends AkeneoAppApiConfig
+  ? undefined
+  : AkeneoAuth
+
 /**
  * Configuration for retrying a request when it fails
  */
@@ -81,6 +141,51 @@ export interface GetListOfCategoriesParams extends CommonRequestOptions {
   }
 }
 
+export interface GetCategoryParams extends CommonRequestOptions {
+  /**
+   * The category code
+   */
+  code: string
+
+  params?: {
+    /**
+     * Return information about category position into its category tree (only available on SaaS platforms)
+     */
+    with_position?: boolean | undefined
+
+    /**
+     * Return category enriched attribute values in the response (only available on SaaS platforms)
+     */
+    with_enriched_attributes?: boolean | undefined
+  }
+}
+
+export interface CreateCategoryParams extends CommonRequestOptions {
+  /**
+   * The category to create
+   */
+  data: CategoryPayload & Pick<Category, 'code'>
+}
+
+export interface UpsertCategoryParams extends CommonRequestOptions {
+  /**
+   * The category code
+   */
+  code: string
+
+  /**
+   * The category properties to update. The category is created if it doesn't already exist.
+   */
+  data: CategoryPayload
+}
+
+export interface UpsertListOfCategoriesParams extends CommonRequestOptions {
+  /**
+   * The categories to update/create (max 100)
+   */
+  data: (CategoryPayload & Pick<Category, 'code'>)[]
+}
+
 export interface GetProductModelParams extends CommonRequestOptions {
   /**
    * The product code
@@ -102,6 +207,32 @@ export interface DeleteProductModelParams extends CommonRequestOptions {
   code: string
 }
 
+export interface CreateProductModelParams extends CommonRequestOptions {
+  /**
+   * The product model to create
+   */
+  data: ProductModelPayload & Pick<ProductModel, 'code'>
+}
+
+export interface UpsertProductModelParams extends CommonRequestOptions {
+  /**
+   * The product model code
+   */
+  code: string
+
+  /**
+   * The product model properties to update. The product model is created if it doesn't already exist.
+   */
+  data: ProductModelPayload
+}
+
+export interface UpsertListOfProductModelsParams extends CommonRequestOptions {
+  /**
+   * The product models to update/create (max 100)
+   */
+  data: (ProductModelPayload & Pick<ProductModel, 'code'>)[]
+}
+
 export interface GetProductParams extends CommonRequestOptions {
   /**
    * The product code
@@ -133,6 +264,32 @@ export interface DeleteProductParams extends CommonRequestOptions {
   code: string
 }
 
+export interface CreateProductParams extends CommonRequestOptions {
+  /**
+   * The product to create
+   */
+  data: ProductPayload & Pick<Product, 'identifier'>
+}
+
+export interface UpsertProductParams extends CommonRequestOptions {
+  /**
+   * The product code
+   */
+  code: string
+
+  /**
+   * The product properties to update. The product is created if it doesn't already exist.
+   */
+  data: ProductPayload
+}
+
+export interface UpsertListOfProductsParams extends CommonRequestOptions {
+  /**
+   * The products to update/create (max 100)
+   */
+  data: (ProductPayload & Pick<Product, 'identifier'>)[]
+}
+
 export interface GetListOfProductsParams extends CommonRequestOptions {
   /**
    * Whether the `_links.next.href` should be followed until all pages are loaded
@@ -210,6 +367,101 @@ export interface GetListOfProductsParams extends CommonRequestOptions {
   }
 }
 
+export interface GetProductUuidParams extends CommonRequestOptions {
+  /**
+   * The product UUID
+   */
+  uuid: string
+
+  params?: GetProductParams['params']
+}
+
+export interface DeleteProductUuidParams extends CommonRequestOptions {
+  /**
+   * The product UUID
+   */
+  uuid: string
+}
+
+export interface CreateProductUuidParams extends CommonRequestOptions {
+  /**
+   * The product to create. A UUID is generated by akeneo if one isn't provided.
+   */
+  data: ProductUuidPayload
+}
+
+export interface UpsertProductUuidParams extends CommonRequestOptions {
+  /**
+   * The product UUID
+   */
+  uuid: string
+
+  /**
+   * The product properties to update. The product is created if it doesn't already exist.
+   */
+  data: ProductUuidPayload
+}
+
+export interface UpsertListOfProductsUuidParams extends CommonRequestOptions {
+  /**
+   * The products to update/create (max 100)
+   */
+  data: (ProductUuidPayload & Pick<ProductUuid, 'uuid'>)[]
+}
+
+export interface GetListOfProductsUuidParams extends GetListOfProductsParams {}
+
+export interface GetProductDraftParams extends CommonRequestOptions {
+  /**
+   * The product code
+   */
+  code: string
+}
+
+export interface SubmitProductDraftForApprovalParams extends CommonRequestOptions {
+  /**
+   * The product code
+   */
+  code: string
+}
+
+export interface GetProductModelDraftParams extends CommonRequestOptions {
+  /**
+   * The product model code
+   */
+  code: string
+}
+
+export interface SubmitProductModelDraftForApprovalParams extends CommonRequestOptions {
+  /**
+   * The product model code
+   */
+  code: string
+}
+
+export interface GetPublishedProductParams extends CommonRequestOptions {
+  /**
+   * The published product code
+   */
+  code: string
+}
+
+export interface GetListOfPublishedProductsParams extends CommonRequestOptions {
+  /**
+   * Whether the `_links.next.href` should be followed until all pages are loaded
+   */
+  fetchAll?: boolean | undefined
+
+  /**
+   * The filtering and pagination parameters of {@see GetListOfProductsParams}, which the
+   * published products support without the `with_*` options
+   */
+  params?: Pick<
+    NonNullable<GetListOfProductsParams['params']>,
+    'search' | 'scope' | 'locales' | 'attributes' | 'pagination_type' | 'page' | 'search_after' | 'limit' | 'with_count'
+  >
+}
+
 export interface GetListOfProductModelsParams extends CommonRequestOptions {
   /**
    * Whether the `_links.next.href` should be followed until all pages are loaded
@@ -316,6 +568,58 @@ export interface GetFamilyParams extends CommonRequestOptions {
   code: string
 }
 
+export interface CreateFamilyParams extends CommonRequestOptions {
+  /**
+   * The family to create
+   */
+  data: FamilyPayload & Pick<Family, 'code'>
+}
+
+export interface UpsertFamilyParams extends CommonRequestOptions {
+  /**
+   * The family code
+   */
+  code: string
+
+  /**
+   * The family properties to update. The family is created if it doesn't already exist.
+   */
+  data: FamilyPayload
+}
+
+export interface UpsertListOfFamiliesParams extends CommonRequestOptions {
+  /**
+   * The families to update/create (max 100)
+   */
+  data: (FamilyPayload & Pick<Family, 'code'>)[]
+}
+
+export interface AddAttributeToFamilyParams extends CommonRequestOptions {
+  /** The family code */
+  familyCode: string
+
+  /** The code of the attribute to add to the family */
+  attributeCode: string
+
+  /** The channels for which the attribute is required for the completeness calculation */
+  requiredForChannels?: ChannelCode[] | undefined
+}
+
+export interface RemoveAttributeFromFamilyParams extends CommonRequestOptions {
+  /** The family code */
+  familyCode: string
+
+  /** The code of the attribute to remove from the family */
+  attributeCode: string
+
+  /**
+   * The channels for which the attribute should no longer be required. When provided, the
+   * attribute is only removed from the requirements of these channels and stays in the family.
+   * When omitted, the attribute is removed from the family and from all of its requirements.
+   */
+  channels?: ChannelCode[] | undefined
+}
+
 export interface GetListOfFamilyVariantsParams extends CommonRequestOptions {
   /**
    * Whether the `_links.next.href` should be followed until all pages are loaded
@@ -345,6 +649,47 @@ export interface GetListOfFamilyVariantsParams extends CommonRequestOptions {
   }
 }
 
+export interface GetFamilyVariantParams extends CommonRequestOptions {
+  /** The family code */
+  familyCode: string
+
+  /** The family variant code */
+  code: string
+}
+
+export interface CreateFamilyVariantParams extends CommonRequestOptions {
+  /** The family code */
+  familyCode: string
+
+  /**
+   * The family variant to create
+   */
+  data: FamilyVariantPayload & Pick<FamilyVariant, 'code' | 'variant_attribute_sets'>
+}
+
+export interface UpsertFamilyVariantParams extends CommonRequestOptions {
+  /** The family code */
+  familyCode: string
+
+  /** The family variant code */
+  code: string
+
+  /**
+   * The family variant properties to update. The family variant is created if it doesn't already exist.
+   */
+  data: FamilyVariantPayload
+}
+
+export interface UpsertListOfFamilyVariantsParams extends CommonRequestOptions {
+  /** The family code */
+  familyCode: string
+
+  /**
+   * The family variants to update/create (max 100)
+   */
+  data: (FamilyVariantPayload & Pick<FamilyVariant, 'code'>)[]
+}
+
 export interface GetListOfAttributeOptionsParams extends CommonRequestOptions {
   /**
    * Whether the `_links.next.href` should be followed until all pages are loaded
@@ -374,6 +719,47 @@ export interface GetListOfAttributeOptionsParams extends CommonRequestOptions {
   }
 }
 
+export interface GetAttributeOptionParams extends CommonRequestOptions {
+  /** The attribute code */
+  attributeCode: string
+
+  /** The attribute option code */
+  code: string
+}
+
+export interface CreateAttributeOptionParams extends CommonRequestOptions {
+  /** The attribute code */
+  attributeCode: string
+
+  /**
+   * The attribute option to create
+   */
+  data: AttributeOptionPayload & Pick<AttributeOption, 'code'>
+}
+
+export interface UpsertAttributeOptionParams extends CommonRequestOptions {
+  /** The attribute code */
+  attributeCode: string
+
+  /** The attribute option code */
+  code: string
+
+  /**
+   * The attribute option properties to update. The attribute option is created if it doesn't already exist.
+   */
+  data: AttributeOptionPayload
+}
+
+export interface UpsertListOfAttributeOptionsParams extends CommonRequestOptions {
+  /** The attribute code */
+  attributeCode: string
+
+  /**
+   * The attribute options to update/create (max 100)
+   */
+  data: (AttributeOptionPayload & Pick<AttributeOption, 'code'>)[]
+}
+
 export interface GetListOfAttributesParams extends CommonRequestOptions {
   /**
    * Whether the `_links.next.href` should be followed until all pages are loaded
@@ -411,6 +797,47 @@ export interface GetListOfAttributesParams extends CommonRequestOptions {
   }
 }
 
+export interface GetAttributeParams extends CommonRequestOptions {
+  /**
+   * The attribute code
+   */
+  code: string
+
+  params?: {
+    /**
+     * Return the options of 'select' column types (of a table attribute) in the response.
+     * (Only available on SaaS platforms)
+     * */
+    with_table_select_options?: boolean | undefined
+  }
+}
+
+export interface CreateAttributeParams extends CommonRequestOptions {
+  /**
+   * The attribute to create
+   */
+  data: AttributePayload & Pick<Attribute, 'code' | 'type' | 'group'>
+}
+
+export interface UpsertAttributeParams extends CommonRequestOptions {
+  /**
+   * The attribute code
+   */
+  code: string
+
+  /**
+   * The attribute properties to update. The attribute is created if it doesn't already exist.
+   */
+  data: AttributePayload
+}
+
+export interface UpsertListOfAttributesParams extends CommonRequestOptions {
+  /**
+   * The attributes to update/create (max 100)
+   */
+  data: (AttributePayload & Pick<Attribute, 'code'>)[]
+}
+
 export interface GetListOfReferenceEntitiesParams extends CommonRequestOptions {
   /**
    * Whether the `_links.next.href` should be followed until all pages are loaded
@@ -425,16 +852,123 @@ export interface GetListOfReferenceEntitiesParams extends CommonRequestOptions {
   }
 }
 
-export interface GetListOfReferenceEntityRecordsParams extends CommonRequestOptions {
+export interface GetReferenceEntityParams extends CommonRequestOptions {
   /**
-   * Whether the `_links.next.href` should be followed until all pages are loaded
+   * The reference entity code
    */
-  fetchAll?: boolean | undefined
-
-  /** Code of the reference entity for which you want the records */
-  referenceEntityCode: string
+  code: string
+}
 
-  params?: {
+export interface UpsertReferenceEntityParams extends CommonRequestOptions {
+  /**
+   * The reference entity code
+   */
+  code: string
+
+  /**
+   * The reference entity properties to update. The reference entity is created if it doesn't already exist.
+   */
+  data: ReferenceEntityPayload
+}
+
+export interface GetListOfReferenceEntityAttributesParams extends CommonRequestOptions {
+  /**
+   * The reference entity code
+   */
+  referenceEntityCode: string
+}
+
+export interface GetReferenceEntityAttributeParams extends CommonRequestOptions {
+  /**
+   * The reference entity code
+   */
+  referenceEntityCode: string
+
+  /**
+   * The reference entity attribute code
+   */
+  code: string
+}
+
+export interface UpsertReferenceEntityAttributeParams extends CommonRequestOptions {
+  /**
+   * The reference entity code
+   */
+  referenceEntityCode: string
+
+  /**
+   * The reference entity attribute code
+   */
+  code: string
+
+  /**
+   * The reference entity attribute properties to update. The attribute is created if it doesn't already exist,
+   * in which case the `type`, `value_per_locale` and `value_per_channel` properties are required.
+   */
+  data: ReferenceEntityAttributePayload
+}
+
+export interface GetListOfReferenceEntityAttributeOptionsParams extends CommonRequestOptions {
+  /**
+   * The reference entity code
+   */
+  referenceEntityCode: string
+
+  /**
+   * The reference entity attribute code
+   */
+  attributeCode: string
+}
+
+export interface GetReferenceEntityAttributeOptionParams extends CommonRequestOptions {
+  /**
+   * The reference entity code
+   */
+  referenceEntityCode: string
+
+  /**
+   * The reference entity attribute code
+   */
+  attributeCode: string
+
+  /**
+   * The reference entity attribute option code
+   */
+  code: string
+}
+
+export interface UpsertReferenceEntityAttributeOptionParams extends CommonRequestOptions {
+  /**
+   * The reference entity code
+   */
+  referenceEntityCode: string
+
+  /**
+   * The reference entity attribute code
+   */
+  attributeCode: string
+
+  /**
+   * The reference entity attribute option code
+   */
+  code: string
+
+  /**
+   * The reference entity attribute option properties to update. The option is created if it doesn't already exist.
+   */
+  data: ReferenceEntityAttributeOptionPayload
+}
+
+export interface GetListOfReferenceEntityRecordsParams extends CommonRequestOptions {
+  /**
+   * Whether the `_links.next.href` should be followed until all pages are loaded
+   */
+  fetchAll?: boolean | undefined
+
+  /** Code of the reference entity for which you want the records */
+  referenceEntityCode: string
+
+  params?: {
     /**
      * Filter records of the reference entity, for more details see the Filters section:
      * https://api.akeneo.com/documentation/filter.html#filter-reference-entity-records
@@ -466,6 +1000,189 @@ export interface GetListOfReferenceEntityRecordsParams extends CommonRequestOpti
   }
 }
 
+export interface GetReferenceEntityRecordParams extends CommonRequestOptions {
+  /**
+   * The reference entity code
+   */
+  referenceEntityCode: string
+
+  /**
+   * The reference entity record code
+   */
+  code: string
+}
+
+export interface UpsertReferenceEntityRecordParams extends CommonRequestOptions {
+  /**
+   * The reference entity code
+   */
+  referenceEntityCode: string
+
+  /**
+   * The reference entity record code
+   */
+  code: string
+
+  /**
+   * The reference entity record properties to update. The record is created if it doesn't already exist.
+   */
+  data: Partial<ReferenceEntityRecord>
+}
+
+export interface UpsertListOfReferenceEntityRecordsParams extends CommonRequestOptions {
+  /**
+   * The reference entity code
+   */
+  referenceEntityCode: string
+
+  /**
+   * The reference entity records to update/create (max 100)
+   */
+  data: (Partial<ReferenceEntityRecord> & Pick<ReferenceEntityRecord, 'code'>)[]
+}
+
+export interface UploadReferenceEntityMediaFileParams extends CommonRequestOptions {
+  /**
+   * The content of the file to upload
+   */
+  file: UploadableFile
+
+  /**
+   * The name of the file, including its extension
+   */
+  filename: string
+}
+
+export interface DownloadReferenceEntityMediaFileParams extends CommonRequestOptions {
+  /**
+   * The reference entity media file code
+   */
+  code: string
+}
+
+export interface GetListOfAssetFamiliesParams extends CommonRequestOptions {
+  /**
+   * Whether the `_links.next.href` should be followed until all pages are loaded
+   */
+  fetchAll?: boolean | undefined
+
+  params?: {
+    /**
+     * Cursor to the first page by default -  when using the `search_after` pagination
+     * method type. Should never be set manually, see Pagination section:
+     * https://api.akeneo.com/documentation/pagination.html
+     */
+    search_after?: string | undefined
+  }
+}
+
+export interface GetAssetFamilyParams extends CommonRequestOptions {
+  /**
+   * The asset family code
+   */
+  code: string
+}
+
+export interface UpsertAssetFamilyParams extends CommonRequestOptions {
+  /**
+   * The asset family code
+   */
+  code: string
+
+  /**
+   * The asset family properties to update. The asset family is created if it doesn't already exist.
+   */
+  data: AssetFamilyPayload
+}
+
+export interface GetListOfAssetAttributesParams extends CommonRequestOptions {
+  /**
+   * The asset family code
+   */
+  assetFamilyCode: string
+}
+
+export interface GetAssetAttributeParams extends CommonRequestOptions {
+  /**
+   * The asset family code
+   */
+  assetFamilyCode: string
+
+  /**
+   * The asset attribute code
+   */
+  code: string
+}
+
+export interface UpsertAssetAttributeParams extends CommonRequestOptions {
+  /**
+   * The asset family code
+   */
+  assetFamilyCode: string
+
+  /**
+   * The asset attribute code
+   */
+  code: string
+
+  /**
+   * The asset attribute properties to update. The attribute is created if it doesn't already exist,
+   * in which case the `type`, `value_per_locale` and `value_per_channel` properties are required.
+   */
+  data: AssetAttributePayload
+}
+
+export interface GetListOfAssetAttributeOptionsParams extends CommonRequestOptions {
+  /**
+   * The asset family code
+   */
+  assetFamilyCode: string
+
+  /**
+   * The asset attribute code
+   */
+  attributeCode: string
+}
+
+export interface GetAssetAttributeOptionParams extends CommonRequestOptions {
+  /**
+   * The asset family code
+   */
+  assetFamilyCode: string
+
+  /**
+   * The asset attribute code
+   */
+  attributeCode: string
+
+  /**
+   * The asset attribute option code
+   */
+  code: string
+}
+
+export interface UpsertAssetAttributeOptionParams extends CommonRequestOptions {
+  /**
+   * The asset family code
+   */
+  assetFamilyCode: string
+
+  /**
+   * The asset attribute code
+   */
+  attributeCode: string
+
+  /**
+   * The asset attribute option code
+   */
+  code: string
+
+  /**
+   * The asset attribute option properties to update. The option is created if it doesn't already exist.
+   */
+  data: AssetAttributeOptionPayload
+}
+
 export interface GetListOfAssetsParams extends CommonRequestOptions {
   /**
    * Whether the `_links.next.href` should be followed until all pages are loaded
@@ -537,3 +1254,509 @@ export interface DeleteAssetParams extends CommonRequestOptions {
    */
   assetFamilyCode: string
 }
+
+export interface UpsertAssetParams extends CommonRequestOptions {
+  /**
+   * The asset family code
+   */
+  assetFamilyCode: string
+
+  /**
+   * The asset code
+   */
+  code: string
+
+  /**
+   * The asset properties to update. The asset is created if it doesn't already exist.
+   */
+  data: AssetPayload
+}
+
+export interface UpsertListOfAssetsParams extends CommonRequestOptions {
+  /**
+   * The asset family code
+   */
+  assetFamilyCode: string
+
+  /**
+   * The assets to update/create (max 100)
+   */
+  data: (AssetPayload & Pick<Asset, 'code'>)[]
+}
+
+export interface UploadAssetMediaFileParams extends CommonRequestOptions {
+  /**
+   * The content of the file to upload
+   */
+  file: UploadableFile
+
+  /**
+   * The name of the file, including its extension
+   */
+  filename: string
+}
+
+export interface DownloadAssetMediaFileParams extends CommonRequestOptions {
+  /**
+   * The asset media file code
+   */
+  code: string
+}
+
+export interface GetListOfAttributeGroupsParams extends CommonRequestOptions {
+  /**
+   * Whether the `_links.next.href` should be followed until all pages are loaded
+   */
+  fetchAll?: boolean | undefined
+
+  params?: {
+    /**
+     * Filter attribute groups, for more details see:
+     * https://api.akeneo.com/documentation/filter.html#filter-attribute-groups
+     */
+    search?: string | undefined
+
+    /**
+     * Number of the page to retrieve when using the `page` pagination method type.
+     * Should never be set manually, see https://api.akeneo.com/documentation/pagination.html
+     */
+    page?: number | undefined
+
+    /**
+     * Number of results by page, see https://api.akeneo.com/documentation/pagination.html
+     */
+    limit?: number | undefined
+
+    /**
+     * Return the count of items in the response. Be careful with this. On a big catalog,
+     * it can decrease performance in a significant way
+     */
+    with_count?: boolean | undefined
+  }
+}
+
+export interface GetAttributeGroupParams extends CommonRequestOptions {
+  /**
+   * The attribute group code
+   */
+  code: string
+}
+
+export interface CreateAttributeGroupParams extends CommonRequestOptions {
+  /**
+   * The attribute group to create
+   */
+  data: AttributeGroupPayload & Pick<AttributeGroup, 'code'>
+}
+
+export interface UpsertAttributeGroupParams extends CommonRequestOptions {
+  /**
+   * The attribute group code
+   */
+  code: string
+
+  /**
+   * The attribute group properties to update. The attribute group is created if it doesn't already exist.
+   */
+  data: AttributeGroupPayload
+}
+
+export interface UpsertListOfAttributeGroupsParams extends CommonRequestOptions {
+  /**
+   * The attribute groups to update/create (max 100)
+   */
+  data: (AttributeGroupPayload & Pick<AttributeGroup, 'code'>)[]
+}
+
+export interface GetListOfAssociationTypesParams extends CommonRequestOptions {
+  /**
+   * Whether the `_links.next.href` should be followed until all pages are loaded
+   */
+  fetchAll?: boolean | undefined
+
+  params?: {
+    /**
+     * Number of the page to retrieve when using the `page` pagination method type.
+     * Should never be set manually, see https://api.akeneo.com/documentation/pagination.html
+     */
+    page?: number | undefined
+
+    /**
+     * Number of results by page, see https://api.akeneo.com/documentation/pagination.html
+     */
+    limit?: number | undefined
+
+    /**
+     * Return the count of items in the response. Be careful with this. On a big catalog,
+     * it can decrease performance in a significant way
+     */
+    with_count?: boolean | undefined
+  }
+}
+
+export interface GetAssociationTypeParams extends CommonRequestOptions {
+  /**
+   * The association type code
+   */
+  code: string
+}
+
+export interface CreateAssociationTypeParams extends CommonRequestOptions {
+  /**
+   * The association type to create
+   */
+  data: AssociationTypePayload & Pick<AssociationType, 'code'>
+}
+
+export interface UpsertAssociationTypeParams extends CommonRequestOptions {
+  /**
+   * The association type code
+   */
+  code: string
+
+  /**
+   * The association type properties to update. The association type is created if it doesn't already exist.
+   */
+  data: AssociationTypePayload
+}
+
+export interface UpsertListOfAssociationTypesParams extends CommonRequestOptions {
+  /**
+   * The association types to update/create (max 100)
+   */
+  data: (AssociationTypePayload & Pick<AssociationType, 'code'>)[]
+}
+
+export interface GetListOfChannelsParams extends CommonRequestOptions {
+  /**
+   * Whether the `_links.next.href` should be followed until all pages are loaded
+   */
+  fetchAll?: boolean | undefined
+
+  params?: {
+    /**
+     * Number of the page to retrieve when using the `page` pagination method type.
+     * Should never be set manually, see https://api.akeneo.com/documentation/pagination.html
+     */
+    page?: number | undefined
+
+    /**
+     * Number of results by page, see https://api.akeneo.com/documentation/pagination.html
+     */
+    limit?: number | undefined
+
+    /**
+     * Return the count of items in the response. Be careful with this. On a big catalog,
+     * it can decrease performance in a significant way
+     */
+    with_count?: boolean | undefined
+  }
+}
+
+export interface GetChannelParams extends CommonRequestOptions {
+  /**
+   * The channel code
+   */
+  code: string
+}
+
+export interface CreateChannelParams extends CommonRequestOptions {
+  /**
+   * The channel to create
+   */
+  data: ChannelPayload & Pick<Channel, 'code'>
+}
+
+export interface UpsertChannelParams extends CommonRequestOptions {
+  /**
+   * The channel code
+   */
+  code: string
+
+  /**
+   * The channel properties to update. The channel is created if it doesn't already exist.
+   */
+  data: ChannelPayload
+}
+
+export interface UpsertListOfChannelsParams extends CommonRequestOptions {
+  /**
+   * The channels to update/create (max 100)
+   */
+  data: (ChannelPayload & Pick<Channel, 'code'>)[]
+}
+
+export interface GetListOfLocalesParams extends CommonRequestOptions {
+  /**
+   * Whether the `_links.next.href` should be followed until all pages are loaded
+   */
+  fetchAll?: boolean | undefined
+
+  /**
+   * Only return the activated (`true`) or deactivated (`false`) locales.
+   * This is converted in to the `enabled` search filter, and is ignored
+   * if the `search` parameter is set explicitly.
+   */
+  enabled?: boolean | undefined
+
+  params?: {
+    /**
+     * Filter locales, for more details see:
+     * https://api.akeneo.com/documentation/filter.html#filter-locales
+     */
+    search?: string | undefined
+
+    /**
+     * Number of the page to retrieve when using the `page` pagination method type.
+     * Should never be set manually, see https://api.akeneo.com/documentation/pagination.html
+     */
+    page?: number | undefined
+
+    /**
+     * Number of results by page, see https://api.akeneo.com/documentation/pagination.html
+     */
+    limit?: number | undefined
+
+    /**
+     * Return the count of items in the response. Be careful with this. On a big catalog,
+     * it can decrease performance in a significant way
+     */
+    with_count?: boolean | undefined
+  }
+}
+
+export interface GetLocaleParams extends CommonRequestOptions {
+  /**
+   * The locale code
+   */
+  code: string
+}
+
+export interface GetListOfCurrenciesParams extends CommonRequestOptions {
+  /**
+   * Whether the `_links.next.href` should be followed until all pages are loaded
+   */
+  fetchAll?: boolean | undefined
+
+  params?: {
+    /**
+     * Filter currencies, for more details see:
+     * https://api.akeneo.com/documentation/filter.html#filter-currencies
+     */
+    search?: string | undefined
+
+    /**
+     * Number of the page to retrieve when using the `page` pagination method type.
+     * Should never be set manually, see https://api.akeneo.com/documentation/pagination.html
+     */
+    page?: number | undefined
+
+    /**
+     * Number of results by page, see https://api.akeneo.com/documentation/pagination.html
+     */
+    limit?: number | undefined
+
+    /**
+     * Return the count of items in the response. Be careful with this. On a big catalog,
+     * it can decrease performance in a significant way
+     */
+    with_count?: boolean | undefined
+  }
+}
+
+export interface GetCurrencyParams extends CommonRequestOptions {
+  /**
+   * The currency code
+   */
+  code: string
+}
+
+export interface UpsertListOfMeasurementFamiliesParams extends CommonRequestOptions {
+  /**
+   * The measurement families to update/create (max 100)
+   */
+  data: (MeasurementFamilyPayload & Pick<MeasurementFamily, 'code'>)[]
+}
+
+export interface GetListOfMediaFilesParams extends CommonRequestOptions {
+  /**
+   * Whether the `_links.next.href` should be followed until all pages are loaded
+   */
+  fetchAll?: boolean | undefined
+
+  params?: {
+    /**
+     * Number of the page to retrieve when using the `page` pagination method type.
+     * Should never be set manually, see https://api.akeneo.com/documentation/pagination.html
+     */
+    page?: number | undefined
+
+    /**
+     * Number of results by page, see https://api.akeneo.com/documentation/pagination.html
+     */
+    limit?: number | undefined
+
+    /**
+     * Return the count of items in the response. Be careful with this. On a big catalog,
+     * it can decrease performance in a significant way
+     */
+    with_count?: boolean | undefined
+  }
+}
+
+export interface GetMediaFileParams extends CommonRequestOptions {
+  /**
+   * The media file code
+   */
+  code: string
+}
+
+export interface DownloadMediaFileParams extends CommonRequestOptions {
+  /**
+   * The media file code
+   */
+  code: string
+}
+
+export interface UploadProductMediaFileParams extends CommonRequestOptions {
+  /**
+   * The content of the file to upload
+   */
+  file: UploadableFile
+
+  /**
+   * The name of the file, including its extension
+   */
+  filename: string
+
+  /**
+   * The product, and the product value, to which the media file will be associated.
+   * Either this or {@see productModel} must be provided.
+   */
+  product?: {
+    /** The product identifier */
+    identifier?: string
+
+    /** The product UUID, when products are identified by their UUID */
+    uuid?: string
+
+    /** The code of the `pim_catalog_image` or `pim_catalog_file` attribute */
+    attribute: string
+
+    /** The channel code, when the attribute is scopable */
+    scope: ChannelCode | null
+
+    /** The locale code, when the attribute is localizable */
+    locale: Locale | null
+  }
+
+  /**
+   * The product model, and the product model value, to which the media file will be associated.
+   * Either this or {@see product} must be provided.
+   */
+  productModel?: {
+    /** The product model code */
+    code: string
+
+    /** The code of the `pim_catalog_image` or `pim_catalog_file` attribute */
+    attribute: string
+
+    /** The channel code, when the attribute is scopable */
+    scope: ChannelCode | null
+
+    /** The locale code, when the attribute is localizable */
+    locale: Locale | null
+  }
+}
+
+export interface LaunchJobParams extends CommonRequestOptions {
+  /**
+   * The code of the job profile to launch
+   */
+  code: string
+}
+
+export interface GetListOfCatalogsParams extends CommonRequestOptions {
+  /**
+   * Whether the `_links.next.href` should be followed until all pages are loaded
+   */
+  fetchAll?: boolean | undefined
+
+  params?: {
+    /**
+     * Number of the page to retrieve
+     * Should never be set manually, see https://api.akeneo.com/documentation/pagination.html
+     */
+    page?: number | undefined
+
+    /**
+     * Number of results by page, see https://api.akeneo.com/documentation/pagination.html
+     */
+    limit?: number | undefined
+  }
+}
+
+export interface GetCatalogParams extends CommonRequestOptions {
+  /**
+   * The catalog identifier
+   */
+  id: string
+}
+
+export interface CreateCatalogParams extends CommonRequestOptions {
+  /**
+   * The catalog to create
+   */
+  data: CatalogPayload
+}
+
+export interface GetListOfCatalogProductsParams extends CommonRequestOptions {
+  /**
+   * Whether the `_links.next.href` should be followed until all pages are loaded
+   */
+  fetchAll?: boolean | undefined
+
+  /**
+   * The catalog identifier
+   */
+  id: string
+
+  params?: {
+    /**
+     * Cursor when using the `search_after` pagination method type.
+     * Should never be set manually, see https://api.akeneo.com/documentation/pagination.html
+     */
+    search_after?: string | undefined
+
+    /**
+     * Number of results by page, see https://api.akeneo.com/documentation/pagination.html
+     */
+    limit?: number | undefined
+
+    /**
+     * Only return the products that were updated before the given date, in ISO 8601 format
+     */
+    updated_before?: string | undefined
+
+    /**
+     * Only return the products that were updated after the given date, in ISO 8601 format
+     */
+    updated_after?: string | undefined
+  }
+}
+
+export interface GetListOfCatalogProductUuidsParams extends GetListOfCatalogProductsParams {}
+
+export interface GetListOfCatalogMappedProductsParams extends GetListOfCatalogProductsParams {}
+
+export interface UpdateCatalogProductMappingSchemaParams extends CommonRequestOptions {
+  /**
+   * The catalog identifier
+   */
+  id: string
+
+  /**
+   * The JSON schema of the products, as expected by the app
+   */
+  data: CatalogProductMappingSchema
+}
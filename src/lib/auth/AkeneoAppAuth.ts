@@ -0,0 +1,180 @@
+import axios from 'axios'
+import qs from 'qs'
+import { AkeneoAppAuthConfig, AkeneoAppIdTokenClaims, AkeneoAppTokenResponse, GrantType } from './types'
+import { AkeneoError } from '../'
+import { DEFAULT_REQUEST_TIMEOUT_MS } from '../constants'
+
+/**
+ * Provides the methods needed by an Akeneo App to go through the
+ * authorization code flow, and to identify the user that connected the app:
+ * https://api.akeneo.com/apps/authentication-and-authorization.html
+ *
+ * Unlike {@see AkeneoAuth}, which uses the password grant of a connection,
+ * the access token obtained here is tied to the app, and doesn't expire.
+ * It can be passed to the {@see AkeneoApi} constructor as the `accessToken`
+ * property.
+ *
+ * This class relies on the nodejs `crypto` module, and so is only intended
+ * to be used by app backends.
+ */
+export class AkeneoAppAuth {
+  /**
+   * The configuration passed in to the constructor
+   */
+  public readonly config: AkeneoAppAuthConfig
+
+  /**
+   * The public key used to verify OpenID id tokens, once it's been requested
+   */
+  private publicKey?: Promise<string>
+
+  constructor(config: AkeneoAppAuthConfig) {
+    this.config = { ...config, endpoint: config.endpoint.replace(/\/+$/, '') }
+  }
+
+  /**
+   * Build the URL that the user should be redirected to, in order to authorize
+   * the app to access the PIM with the given scopes:
+   * https://api.akeneo.com/apps/authentication-and-authorization.html#step-2-ask-for-authorization
+   *
+   * The `state` should be a random value, stored in the user's session, and then
+   * compared to the `state` query parameter received on the callback URL.
+   */
+  public getAuthorizeUrl(options: { scopes: string[]; state: string }): string {
+    const params = qs.stringify({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      scope: options.scopes.join(' '),
+      state: options.state,
+    })
+    return `${this.config.endpoint}/connect/apps/v1/authorize?${params}`
+  }
+
+  /**
+   * Create the code challenge sent along with the authorization code. Akeneo's
+   * variant of PKCE expects the challenge to be the SHA-256 hash of a random
+   * code identifier followed by the client secret:
+   * https://api.akeneo.com/apps/authentication-and-authorization.html#step-4-request-an-access-token
+   */
+  public createCodeChallenge(codeIdentifier: string = randomHex(32)) {
+    const crypto = require('crypto')
+    const codeChallenge: string = crypto
+      .createHash('sha256')
+      .update(`${codeIdentifier}${this.config.clientSecret}`)
+      .digest('hex')
+    return { codeIdentifier, codeChallenge }
+  }
+
+  /**
+   * Exchange the authorization code received on the callback URL for an access token.
+   * The response also contains an OpenID `id_token` when the `openid` scope was requested,
+   * which can be checked using {@see verifyIdToken}.
+   */
+  public async getAccessToken(options: { code: string }): Promise<AkeneoAppTokenResponse> {
+    const { codeIdentifier, codeChallenge } = this.createCodeChallenge()
+    try {
+      const response = await axios({
+        url: `${this.config.endpoint}/connect/apps/v1/oauth2/token`,
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        data: qs.stringify({
+          grant_type: GrantType.AUTHORIZATION_CODE,
+          client_id: this.config.clientId,
+          code: options.code,
+          code_identifier: codeIdentifier,
+          code_challenge: codeChallenge,
+        }),
+        timeout: this.config.timeoutMs || DEFAULT_REQUEST_TIMEOUT_MS,
+      })
+      return response.data
+    } catch (error: any) {
+      if (error.isAxiosError) {
+        throw AkeneoError.fromAxiosError(error)
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Get the public key used to sign OpenID id tokens. It's only requested
+   * once, and then cached for the lifetime of this instance.
+   */
+  public async getPublicKey(): Promise<string> {
+    if (!this.publicKey) {
+      this.publicKey = axios
+        .get(`${this.config.endpoint}/connect/apps/v1/openid/public-key`, {
+          timeout: this.config.timeoutMs || DEFAULT_REQUEST_TIMEOUT_MS,
+        })
+        .then((response) => response.data.public_key)
+        .catch((error) => {
+          this.publicKey = undefined
+          throw error.isAxiosError ? AkeneoError.fromAxiosError(error) : error
+        })
+    }
+    return this.publicKey
+  }
+
+  /**
+   * Verify the signature and claims of an OpenID id token, and return its claims.
+   * The `sub` claim is the UUID of the user that connected the app:
+   * https://api.akeneo.com/apps/authentication-and-authorization.html#how-to-get-user-profile-information
+   */
+  public async verifyIdToken(idToken: string): Promise<AkeneoAppIdTokenClaims> {
+    const parts = idToken.split('.')
+    if (parts.length !== 3) {
+      throw new AkeneoError('The id token is not a valid JWT')
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts
+    const header = decodeJwtSegment(encodedHeader)
+    if (header.alg !== 'RS256') {
+      throw new AkeneoError(`The id token algorithm must be RS256, but was ${header.alg}`)
+    }
+
+    const crypto = require('crypto')
+    const isValidSignature = crypto
+      .createVerify('RSA-SHA256')
+      .update(`${encodedHeader}.${encodedPayload}`)
+      .verify(await this.getPublicKey(), base64UrlToBuffer(encodedSignature))
+    if (!isValidSignature) {
+      throw new AkeneoError('The id token signature is not valid')
+    }
+
+    const claims: AkeneoAppIdTokenClaims = decodeJwtSegment(encodedPayload)
+    if (claims.iss !== this.config.endpoint) {
+      throw new AkeneoError(`The id token issuer is not valid: expected ${this.config.endpoint}, but was ${claims.iss}`)
+    }
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (!audience.includes(this.config.clientId)) {
+      throw new AkeneoError('The id token audience does not include the client id of the app')
+    }
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+      throw new AkeneoError('The id token has expired')
+    }
+    return claims
+  }
+}
+
+/**
+ * Generate a random string of hexadecimal characters from the given number of bytes
+ */
+function randomHex(bytes: number): string {
+  return require('crypto').randomBytes(bytes).toString('hex')
+}
+
+/**
+ * Convert a base64url encoded string, as used by JWTs, in to a `Buffer`
+ */
+function base64UrlToBuffer(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64')
+}
+
+/**
+ * Decode the JSON content of the header or payload segment of a JWT
+ */
+function decodeJwtSegment(segment: string): any {
+  try {
+    return JSON.parse(base64UrlToBuffer(segment).toString('utf8'))
+  } catch (e) {
+    throw new AkeneoError('The id token is not a valid JWT')
+  }
+}
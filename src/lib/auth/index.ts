@@ -1,3 +1,10 @@
+export * from './AkeneoAppAuth'
 export * from './AkeneoAuth'
 export * from './AkeneoGrant'
-export type { AkeneoAuthConfig, GrantType } from './types'
+export type {
+  AkeneoAppAuthConfig,
+  AkeneoAppIdTokenClaims,
+  AkeneoAppTokenResponse,
+  AkeneoAuthConfig,
+  GrantType,
+} from './types'
@@ -19,6 +19,56 @@ export interface AkeneoAuthApiConfig {
   timeoutMs?: number
 }
 
+/**
+ * Configuration for {@see AkeneoAppAuth}
+ */
+export interface AkeneoAppAuthConfig {
+  /**
+   * URL of the PIM, as received in the `pim_url` query parameter when the app is activated
+   */
+  endpoint: string
+  clientId: string
+  clientSecret: string
+  timeoutMs?: number
+}
+
+/**
+ * The object structure that we receive back from akeneo when an
+ * app exchanges an authorization code for an access token.
+ */
+export interface AkeneoAppTokenResponse {
+  /** The app access token. It doesn't expire, but is revoked if the app is disconnected. */
+  access_token: string
+  token_type: string
+  /** Space separated list of the authorized scopes */
+  scope: string
+  /** OpenID id token, only returned when the `openid` scope was requested */
+  id_token?: string
+}
+
+/**
+ * The claims of the OpenID id token received when an app is connected
+ * https://api.akeneo.com/apps/authentication-and-authorization.html#how-to-get-user-profile-information
+ */
+export interface AkeneoAppIdTokenClaims {
+  /** URL of the PIM that issued the token */
+  iss: string
+  /** Client id of the app */
+  aud: string | string[]
+  /** UUID of the user that connected the app */
+  sub: string
+  /** Issue date, in seconds since the epoch */
+  iat: number
+  /** Expiry date, in seconds since the epoch */
+  exp: number
+  /** Only available when the `email` scope was requested */
+  email?: string
+  email_verified?: boolean
+  /** Only available when the `profile` scope was requested */
+  firstname?: string
+  lastname?: string
+}
+
 /**
  * The object structure that we receive back from akeneo
  * on a successful call to get a new grant, or refresh an existing one.
@@ -40,4 +90,9 @@ export enum GrantType {
    * https://docs.akeneo.com/api/authorization#password-flow
    */
   PASSWORD = 'password',
+  /**
+   * Used when an Akeneo App exchanges an authorization code for an access token:
+   * https://api.akeneo.com/apps/authentication-and-authorization.html#step-4-request-an-access-token
+   */
+  AUTHORIZATION_CODE = 'authorization_code',
 }
@@ -14,3 +14,8 @@ export const DEFAULT_429_DELAY_MS = 5000
  * Maximum number of items per page when querying for any type of items
  */
 export const MAX_ITEMS_PER_PAGE = 100
+
+/**
+ * Maximum number of items that can be sent in a single bulk update request
+ */
+export const MAX_ITEMS_PER_BULK_REQUEST = 100
@@ -67,6 +67,10 @@ export class AkeneoError extends Error {
       return
     }
     let data = config?.data
+    if (isBinaryData(data)) {
+      // Leave out the body of multipart uploads, which contains the entire file
+      return
+    }
     if (typeof data === 'string' && data) {
       let contentType = ''
       if (typeof config?.headers?.['Content-Type'] === 'string') {
@@ -110,3 +114,16 @@ export class AkeneoError extends Error {
     return stringify(this.toJSON())
   }
 }
+
+/**
+ * Check whether a request body is binary content, such as a file upload,
+ * rather than data that can be usefully displayed.
+ */
+function isBinaryData(data: unknown) {
+  return (
+    (typeof Buffer !== 'undefined' && Buffer.isBuffer(data)) ||
+    data instanceof ArrayBuffer ||
+    (typeof FormData !== 'undefined' && data instanceof FormData) ||
+    (typeof Blob !== 'undefined' && data instanceof Blob)
+  )
+}
@@ -3,4 +3,4 @@ export * from './auth'
 export * from './api'
 export * from './utils'
 export * from './types'
-export { MAX_ITEMS_PER_PAGE } from './constants'
+export { MAX_ITEMS_PER_BULK_REQUEST, MAX_ITEMS_PER_PAGE } from './constants'
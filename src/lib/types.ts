@@ -15,6 +15,39 @@ export type ChannelCode = string
 export type Locale = string
 export type PaginationType = 'page' | 'search_after'
 
+/**
+ * The status of a product or product model regarding the user permissions (Enterprise Edition only)
+ * https://api.akeneo.com/concepts/products.html#product-draft-and-proposal
+ */
+export type WorkflowStatus = 'working_copy' | 'draft_in_progress' | 'proposal_waiting_for_approval' | 'read_only'
+
+/**
+ * The locale definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_locales__code_
+ */
+export interface LocaleDefinition {
+  /** Locale code */
+  code: Locale
+
+  /** Whether the locale is activated, i.e. used in at least one channel */
+  enabled: boolean
+}
+
+/**
+ * The currency definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_currencies__code_
+ */
+export interface Currency {
+  /** Currency code */
+  code: string
+
+  /** Whether the currency is activated, i.e. used in at least one channel */
+  enabled: boolean
+
+  /** Currency label (only available on SaaS platforms) */
+  label?: string
+}
+
 /**
  * The category definition
  * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_categories__code_
@@ -34,8 +67,37 @@ export interface Category {
 
   /** Date of the last update */
   updated: string
+
+  /**
+   * Category attribute values (only available on SaaS platforms and when query
+   * parameter "with_enriched_attributes" is set to "true")
+   */
+  values?: Record<string, CategoryAttributeValue>
+}
+
+export interface CategoryAttributeValue {
+  /** Category attribute value */
+  data: any
+
+  /** Category attribute type, e.g. `text`, `textarea`, `image` */
+  type: string
+
+  /** Locale code of the category attribute value */
+  locale: Locale | null
+
+  /** Channel code of the category attribute value */
+  channel: ChannelCode | null
+
+  /** Code of the category attribute, suffixed with its unique identifier */
+  attribute_code: string
 }
 
+/**
+ * The category payload used when creating or updating a category
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_categories
+ */
+export type CategoryPayload = Partial<Omit<Category, 'updated'>>
+
 /**
  * The product model definition
  * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_product_models__code_
@@ -81,7 +143,7 @@ export interface ProductModel {
   updated: string
   metadata: {
     /** Status of the product model regarding the user permissions */
-    workflow_status: string
+    workflow_status: WorkflowStatus
   }
   /**
    * Product model quality scores for each channel/locale combination
@@ -95,6 +157,12 @@ export interface ProductModel {
   }[]
 }
 
+/**
+ * The product model payload used when creating or updating a product model
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_product_models
+ */
+export type ProductModelPayload = Partial<Omit<ProductModel, 'created' | 'updated' | 'metadata' | 'quality_scores'>>
+
 /**
  * The product definition
  * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_products__code_
@@ -150,7 +218,7 @@ export interface Product {
 
   metadata: {
     /** Status of the product regarding the user permissions */
-    workflow_status: string
+    workflow_status: WorkflowStatus
   }
 
   /** Product quality scores for each channel/locale combination (only available since the 5.0 and when the "with_quality_scores" query parameter is set to "true") */
@@ -168,6 +236,35 @@ export interface Product {
   }[]
 }
 
+/**
+ * The product payload used when creating or updating a product. Read-only
+ * properties such as `created` and `metadata` are managed by Akeneo.
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_products
+ */
+export type ProductPayload = Partial<
+  Omit<Product, 'created' | 'updated' | 'metadata' | 'quality_scores' | 'completenesses'>
+>
+
+/**
+ * The product definition, when products are identified by their UUID
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_products_uuid__uuid_
+ */
+export interface ProductUuid extends Omit<Product, 'identifier'> {
+  /** Product UUID */
+  uuid: string
+
+  /** Product identifier, i.e. the value of the main `pim_catalog_identifier` attribute (if the product has one) */
+  identifier?: string | null
+}
+
+/**
+ * The product payload used when creating or updating a product identified by its UUID
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_products_uuid
+ */
+export type ProductUuidPayload = Partial<
+  Omit<ProductUuid, 'identifier' | 'created' | 'updated' | 'metadata' | 'quality_scores' | 'completenesses'>
+>
+
 /**
  * The family definition
  * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_families
@@ -202,6 +299,12 @@ export interface Family {
   labels: Record<Locale, string>
 }
 
+/**
+ * The family payload used when creating or updating a family
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_families
+ */
+export type FamilyPayload = Partial<Omit<Family, '_links'>>
+
 /**
  * The family definition
  * Visible in the response body here:
@@ -231,6 +334,12 @@ export interface FamilyVariant {
   labels: Record<Locale, string>
 }
 
+/**
+ * The family variant payload used when creating or updating a family variant
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_families__family_code__variants
+ */
+export type FamilyVariantPayload = Partial<FamilyVariant>
+
 export interface AttributeOption {
   /** Code of option */
   code: string
@@ -245,12 +354,43 @@ export interface AttributeOption {
   labels: Record<Locale, string>
 }
 
+/**
+ * The attribute option payload used when creating or updating an attribute option
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_attributes__attribute_code__options
+ */
+export type AttributeOptionPayload = Partial<AttributeOption>
+
+/**
+ * The attribute types
+ * See the type section here: https://api.akeneo.com/concepts/catalog-structure.html#attribute
+ */
+export type AttributeType =
+  | 'pim_catalog_identifier'
+  | 'pim_catalog_text'
+  | 'pim_catalog_textarea'
+  | 'pim_catalog_simpleselect'
+  | 'pim_catalog_multiselect'
+  | 'pim_catalog_boolean'
+  | 'pim_catalog_date'
+  | 'pim_catalog_number'
+  | 'pim_catalog_metric'
+  | 'pim_catalog_price_collection'
+  | 'pim_catalog_image'
+  | 'pim_catalog_file'
+  | 'pim_catalog_asset_collection'
+  | 'akeneo_reference_entity'
+  | 'akeneo_reference_entity_collection'
+  | 'pim_reference_data_simpleselect'
+  | 'pim_reference_data_multiselect'
+  | 'pim_catalog_table'
+  | 'pim_catalog_product_link'
+
 export interface Attribute {
   /** Attribute code */
   code: string
 
   /** Attribute type. See type section for more details. */
-  type: string
+  type: AttributeType
 
   /** Attribute label by locale */
   labels: Record<Locale, string>
@@ -331,6 +471,152 @@ export interface Attribute {
   table_configuration: any[]
 }
 
+/**
+ * The attribute payload used when creating or updating an attribute
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_attributes
+ */
+export type AttributePayload = Partial<Omit<Attribute, 'group_labels'>>
+
+/**
+ * The attribute group definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_attribute_groups__code_
+ */
+export interface AttributeGroup {
+  /** Attribute group code */
+  code: string
+
+  /** Attribute group order among other attribute groups */
+  sort_order: number
+
+  /** Attribute codes that compose the attribute group */
+  attributes: string[]
+
+  /** Locale/string pairs, e.g. { en_GB: 'Some English text' } */
+  labels: Record<Locale, string>
+}
+
+/**
+ * The attribute group payload used when creating or updating an attribute group
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_attribute_groups
+ */
+export type AttributeGroupPayload = Partial<AttributeGroup>
+
+/**
+ * The association type definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_association_types__code_
+ */
+export interface AssociationType {
+  /** Association type code */
+  code: string
+
+  /** Locale/string pairs, e.g. { en_GB: 'Some English text' } */
+  labels: Record<Locale, string>
+
+  /** When true, the association is a quantified association (only available since the 5.0) */
+  is_quantified: boolean
+
+  /** When true, the association is a bidirectional association (only available since the 5.0) */
+  is_two_way: boolean
+}
+
+/**
+ * The association type payload used when creating or updating an association type.
+ * Note that `is_quantified` and `is_two_way` can't be changed once the association type is created.
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_association_types
+ */
+export type AssociationTypePayload = Partial<AssociationType>
+
+/**
+ * The channel definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_channels__code_
+ */
+export interface Channel {
+  /** Channel code */
+  code: ChannelCode
+
+  /** Codes of activated locales for the channel */
+  locales: Locale[]
+
+  /** Codes of activated currencies for the channel */
+  currencies: string[]
+
+  /** Code of the category tree linked to the channel */
+  category_tree: string
+
+  /** Units to which the given metric attributes should be converted when exporting products, e.g. { weight: 'KILOGRAM' } */
+  conversion_units: Record<string, string>
+
+  /** Locale/string pairs, e.g. { en_GB: 'Some English text' } */
+  labels: Record<Locale, string>
+}
+
+/**
+ * The channel payload used when creating or updating a channel
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_channels
+ */
+export type ChannelPayload = Partial<Channel>
+
+/**
+ * The measurement family definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_measurement_families
+ */
+export interface MeasurementFamily {
+  /** Measurement family code */
+  code: string
+
+  /** Locale/string pairs, e.g. { en_GB: 'Some English text' } */
+  labels: Record<Locale, string>
+
+  /** Unit code used as the standard unit for this measurement family */
+  standard_unit_code: string
+
+  /** Units that compose the measurement family, keyed by unit code */
+  units: Record<string, MeasurementUnit>
+}
+
+export interface MeasurementUnit {
+  /** Measurement unit code */
+  code: string
+
+  /** Locale/string pairs, e.g. { en_GB: 'Some English text' } */
+  labels: Record<Locale, string>
+
+  /**
+   * Operations that convert a value expressed in this unit in to the standard
+   * unit of the measurement family. They are applied in the given order.
+   */
+  convert_from_standard: MeasurementConversionOperation[]
+
+  /** Symbol of the unit, e.g. `kg` */
+  symbol: string
+}
+
+export interface MeasurementConversionOperation {
+  /** Operator of the conversion operation */
+  operator: 'mul' | 'div' | 'add' | 'sub'
+
+  /** Value of the conversion operation, as a numeric string */
+  value: string
+}
+
+/**
+ * The measurement family payload used when creating or updating a measurement family
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#patch_measurement_families
+ */
+export type MeasurementFamilyPayload = Partial<MeasurementFamily>
+
+/**
+ * The value of a `pim_catalog_metric` attribute
+ * https://api.akeneo.com/concepts/products.html#the-data-format
+ */
+export interface MetricValue {
+  /** Amount of the metric. Akeneo returns this as a string, to avoid losing any precision. */
+  amount: string | number
+
+  /** Unit code of the metric */
+  unit: string
+}
+
 export interface ReferenceEntity {
   _links: {
     image_download: {
@@ -348,6 +634,110 @@ export interface ReferenceEntity {
   image?: string | undefined
 }
 
+/**
+ * The reference entity payload used when creating or updating a reference entity
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#patch_reference_entity__code_
+ */
+export type ReferenceEntityPayload = Partial<Omit<ReferenceEntity, '_links'>>
+
+/**
+ * The supported types of reference entity attributes
+ * https://api.akeneo.com/concepts/reference-entities.html#reference-entity-attribute
+ */
+export type ReferenceEntityAttributeType =
+  | 'text'
+  | 'image'
+  | 'number'
+  | 'single_option'
+  | 'multiple_options'
+  | 'reference_entity_single_link'
+  | 'reference_entity_multiple_links'
+  | 'asset_collection'
+
+/**
+ * The reference entity attribute definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_reference_entity_attributes__code_
+ */
+export interface ReferenceEntityAttribute {
+  /** Attribute code */
+  code: string
+
+  /** Locale/string pairs, e.g. { en_GB: 'Some English text' } */
+  labels: Record<Locale, string>
+
+  /** Attribute type */
+  type: ReferenceEntityAttributeType
+
+  /** Whether the attribute is localizable, i.e. can have one value by locale */
+  value_per_locale: boolean
+
+  /** Whether the attribute is scopable, i.e. can have one value by channel */
+  value_per_channel: boolean
+
+  /** Whether the attribute is required to consider the record complete */
+  is_required_for_completeness: boolean
+
+  /** Maximum number of characters allowed for the value of the attribute (only when type is `text`) */
+  max_characters?: number | null | undefined
+
+  /** Whether the UI should display a text area instead of a simple field (only when type is `text`) */
+  is_textarea?: boolean | undefined
+
+  /** Whether the UI should display a rich text editor instead of a simple text area (only when type is `text`) */
+  is_rich_text_editor?: boolean | undefined
+
+  /** Validation rule type used to validate the attribute value (only when type is `text`) */
+  validation_rule?: 'email' | 'url' | 'regular_expression' | 'none' | undefined
+
+  /** Regexp expression used to validate the attribute value (only when validation rule is `regular_expression`) */
+  validation_regexp?: string | null | undefined
+
+  /** Extensions allowed for the attribute (only when type is `image`) */
+  allowed_extensions?: string[] | undefined
+
+  /** Max file size in MB (only when type is `image`) */
+  max_file_size?: string | null | undefined
+
+  /** Code of the linked reference entity (only when type is `reference_entity_single_link` or `reference_entity_multiple_links`) */
+  reference_entity_code?: string | undefined
+
+  /** Code of the linked asset family (only when type is `asset_collection`) */
+  asset_family_identifier?: string | undefined
+
+  /** Whether decimals are allowed (only when type is `number`) */
+  decimals_allowed?: boolean | undefined
+
+  /** Minimum value allowed (only when type is `number`) */
+  min_value?: string | null | undefined
+
+  /** Maximum value allowed (only when type is `number`) */
+  max_value?: string | null | undefined
+}
+
+/**
+ * The reference entity attribute payload used when creating or updating a reference entity attribute
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#patch_reference_entity_attributes__code_
+ */
+export type ReferenceEntityAttributePayload = Partial<ReferenceEntityAttribute>
+
+/**
+ * The reference entity attribute option definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_reference_entity_attribute_options__code_
+ */
+export interface ReferenceEntityAttributeOption {
+  /** Attribute option code */
+  code: string
+
+  /** Locale/string pairs, e.g. { en_GB: 'Some English text' } */
+  labels: Record<Locale, string>
+}
+
+/**
+ * The reference entity attribute option payload used when creating or updating a reference entity attribute option
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#patch_reference_entity_attribute_options__code_
+ */
+export type ReferenceEntityAttributeOptionPayload = Partial<ReferenceEntityAttributeOption>
+
 export interface ReferenceEntityRecord {
   /** Reference entity code */
   code: string
@@ -396,6 +786,34 @@ export type AttributeValue = AttributeValueItem[]
 
 export type AttributeValues = Record<string, AttributeValue>
 
+/**
+ * The product media file definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_media_files__code_
+ */
+export interface MediaFile {
+  _links: {
+    download: {
+      /** URI to download the binaries of the media file */
+      href: string
+    }
+  }
+
+  /** Media file code */
+  code: string
+
+  /** Original filename of the media file */
+  original_filename: string
+
+  /** Mime type of the media file */
+  mime_type: string
+
+  /** Size of the media file, in bytes */
+  size: number
+
+  /** Extension of the media file */
+  extension: string
+}
+
 /**
  * The asset definition
  * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_assets__code_
@@ -414,6 +832,389 @@ export interface Asset {
   updated: string
 }
 
+/**
+ * The asset payload used when creating or updating an asset
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#patch_assets__code_
+ */
+export type AssetPayload = Partial<Omit<Asset, 'created' | 'updated'>>
+
+/**
+ * The asset family definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_asset_families__code_
+ */
+export interface AssetFamily {
+  /** Asset family code */
+  code: string
+
+  /** Locale/string pairs, e.g. { en_GB: 'Some English text' } */
+  labels: Record<Locale, string>
+
+  /** Code of the attribute used as the main media of the assets of the family */
+  attribute_as_main_media?: string | undefined
+
+  /** Rule used to extract attribute values from the filename or code of newly created assets */
+  naming_convention?: AssetFamilyNamingConvention | Record<string, never> | undefined
+
+  /** Rules used to automatically link the assets of the family to products */
+  product_link_rules?: AssetFamilyProductLinkRule[] | undefined
+
+  /** Transformations applied to the media files of the assets of the family */
+  transformations?: AssetFamilyTransformation[] | undefined
+}
+
+export interface AssetFamilyNamingConvention {
+  /** The property, and its channel/locale, the naming convention is applied to */
+  source: {
+    property: 'code' | 'media' | string
+    channel: ChannelCode | null
+    locale: Locale | null
+  }
+
+  /** Regular expression, with named groups matching the attribute codes to fill */
+  pattern: string
+
+  /** Whether the asset creation should be aborted when the source doesn't match the pattern */
+  abort_asset_creation_on_error: boolean
+}
+
+export interface AssetFamilyProductLinkRule {
+  /** Conditions used to select the products to link the assets to */
+  product_selections: {
+    field: string
+    operator: string
+    value: any
+    channel?: ChannelCode | null | undefined
+    locale?: Locale | null | undefined
+  }[]
+
+  /** Product attributes the assets are assigned to */
+  assign_assets_to: {
+    attribute: string
+    mode: 'add' | 'replace'
+    channel?: ChannelCode | null | undefined
+    locale?: Locale | null | undefined
+  }[]
+}
+
+export interface AssetFamilyTransformation {
+  /** Label of the transformation */
+  label: string
+
+  /** Prefix of the filename of the transformed file */
+  filename_prefix?: string | null | undefined
+
+  /** Suffix of the filename of the transformed file */
+  filename_suffix?: string | null | undefined
+
+  /** The media file attribute value the transformation is applied to */
+  source: {
+    attribute: string
+    channel: ChannelCode | null
+    locale: Locale | null
+  }
+
+  /** The media file attribute value the transformed file is stored in */
+  target: {
+    attribute: string
+    channel: ChannelCode | null
+    locale: Locale | null
+  }
+
+  /** Operations applied to the source file, e.g. `thumbnail`, `resize` or `colorspace` */
+  operations: {
+    type: string
+    parameters?: Record<string, any> | undefined
+  }[]
+}
+
+/**
+ * The asset family payload used when creating or updating an asset family
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#patch_asset_family__code_
+ */
+export type AssetFamilyPayload = Partial<AssetFamily>
+
+/**
+ * The supported types of asset attributes
+ * https://api.akeneo.com/concepts/asset-manager.html#asset-attribute
+ */
+export type AssetAttributeType = 'text' | 'media_file' | 'media_link' | 'number' | 'single_option' | 'multiple_options'
+
+/**
+ * The asset attribute definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_asset_family_attributes__code_
+ */
+export interface AssetAttribute {
+  /** Attribute code */
+  code: string
+
+  /** Locale/string pairs, e.g. { en_GB: 'Some English text' } */
+  labels: Record<Locale, string>
+
+  /** Attribute type */
+  type: AssetAttributeType
+
+  /** Whether the attribute is localizable, i.e. can have one value by locale */
+  value_per_locale: boolean
+
+  /** Whether the attribute is scopable, i.e. can have one value by channel */
+  value_per_channel: boolean
+
+  /** Whether the attribute is required to consider the asset complete */
+  is_required_for_completeness: boolean
+
+  /** Whether the attribute value can't be edited in the UI (only when type is `text`, `media_file`, `media_link`) */
+  is_read_only?: boolean | undefined
+
+  /** Maximum number of characters allowed for the value of the attribute (only when type is `text`) */
+  max_characters?: number | null | undefined
+
+  /** Whether the UI should display a text area instead of a simple field (only when type is `text`) */
+  is_textarea?: boolean | undefined
+
+  /** Whether the UI should display a rich text editor instead of a simple text area (only when type is `text`) */
+  is_rich_text_editor?: boolean | undefined
+
+  /** Validation rule type used to validate the attribute value (only when type is `text`) */
+  validation_rule?: 'email' | 'url' | 'regular_expression' | 'none' | undefined
+
+  /** Regexp expression used to validate the attribute value (only when validation rule is `regular_expression`) */
+  validation_regexp?: string | null | undefined
+
+  /** Extensions allowed for the attribute (only when type is `media_file`) */
+  allowed_extensions?: string[] | undefined
+
+  /** Max file size in MB (only when type is `media_file`) */
+  max_file_size?: string | null | undefined
+
+  /** Type of the media (only when type is `media_file` or `media_link`) */
+  media_type?: 'image' | 'pdf' | 'youtube' | 'vimeo' | 'other' | undefined
+
+  /** Prefix of the media link url (only when type is `media_link`) */
+  prefix?: string | null | undefined
+
+  /** Suffix of the media link url (only when type is `media_link`) */
+  suffix?: string | null | undefined
+
+  /** Whether decimals are allowed (only when type is `number`) */
+  decimals_allowed?: boolean | undefined
+
+  /** Minimum value allowed (only when type is `number`) */
+  min_value?: string | null | undefined
+
+  /** Maximum value allowed (only when type is `number`) */
+  max_value?: string | null | undefined
+}
+
+/**
+ * The asset attribute payload used when creating or updating an asset attribute
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#patch_asset_family_attributes__code_
+ */
+export type AssetAttributePayload = Partial<AssetAttribute>
+
+/**
+ * The asset attribute option definition
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_asset_family_attribute_options__code_
+ */
+export interface AssetAttributeOption {
+  /** Attribute option code */
+  code: string
+
+  /** Locale/string pairs, e.g. { en_GB: 'Some English text' } */
+  labels: Record<Locale, string>
+}
+
+/**
+ * The asset attribute option payload used when creating or updating an asset attribute option
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#patch_asset_family_attribute_options__code_
+ */
+export type AssetAttributeOptionPayload = Partial<AssetAttributeOption>
+
+/**
+ * The catalog definition, used by apps to access a selection of products
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_app_catalog
+ */
+export interface Catalog {
+  /** Catalog identifier (a UUID) */
+  id: string
+
+  /** Catalog name */
+  name: string
+
+  /** Whether the catalog is enabled. Catalogs can only be enabled by a user in the PIM. */
+  enabled: boolean
+}
+
+/**
+ * The catalog payload used when creating or updating a catalog
+ * Visible in the request body here: https://api.akeneo.com/api-reference.html#post_app_catalog
+ */
+export type CatalogPayload = Pick<Catalog, 'name'>
+
+/**
+ * The JSON schema describing how the products of a catalog are mapped to the format expected by an app
+ * https://api.akeneo.com/apps/catalogs.html#catalogs-with-product-mapping
+ */
+export interface CatalogProductMappingSchema {
+  /** The JSON schema version, e.g. `https://api.akeneo.com/mapping/product/0.0.13/schema` */
+  $schema: string
+
+  /** The JSON schema properties, keyed by target */
+  properties: Record<string, any>
+
+  [key: string]: any
+}
+
+/**
+ * The response received when creating or updating a single resource
+ */
+export interface WriteResponse {
+  /** HTTP status code: `201` when the resource was created, `204` when it was updated */
+  status: number
+
+  /** URI of the created/updated resource, taken from the `Location` header */
+  location?: string
+}
+
+/**
+ * A validation error, returned by akeneo when a resource is not valid
+ * Visible in the response body here: https://api.akeneo.com/documentation/responses.html#422-error
+ */
+export interface ValidationError {
+  /** Name of the property that is not valid */
+  property: string
+
+  /** Description of the problem */
+  message: string
+
+  /** Attribute code, when the error concerns an attribute value */
+  attribute?: string
+
+  /** Locale code, when the error concerns a localizable attribute value */
+  locale?: Locale | null
+
+  /** Channel code, when the error concerns a scopable attribute value */
+  scope?: ChannelCode | null
+}
+
+/**
+ * The result for a single line of a bulk update request
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#patch_products
+ */
+export interface BulkUpsertLineResult {
+  /** Line number of the item in the request body, starting at 1 */
+  line: number
+
+  /** Product identifier (only returned for products) */
+  identifier?: string
+
+  /** Product UUID (only returned for products identified by their UUID) */
+  uuid?: string
+
+  /** Resource code (returned for resources identified by a code, such as product models) */
+  code?: string
+
+  /** HTTP status code for the line: `201` when created, `204` when updated, `4xx` on failure */
+  status_code: number
+
+  /** Description of the failure (only returned when the line failed) */
+  message?: string
+
+  /** Validation errors (only returned when the line failed validation) */
+  errors?: ValidationError[]
+}
+
+/**
+ * The result for a single item of a bulk update request that is sent as a JSON array
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#patch_measurement_families
+ */
+export interface BulkUpsertItemResult {
+  /** Code of the item */
+  code: string
+
+  /** HTTP status code for the item: `201` when created, `204` when updated, `4xx` on failure */
+  status_code: number
+
+  /** Description of the failure (only returned when the item failed) */
+  message?: string
+
+  /** Validation errors (only returned when the item failed validation) */
+  errors?: ValidationError[]
+}
+
+/**
+ * The reference to a job execution, received when launching a job
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#post_jobs_export__code_
+ */
+export interface JobExecution {
+  /** Identifier of the job execution */
+  execution_id: number
+
+  _links: {
+    execution: {
+      /**
+       * URL of the job execution page in the PIM's user interface, e.g. `https://demo.akeneo.com/job/show/42`.
+       * Akeneo doesn't provide a REST API endpoint to check the status of a job execution.
+       */
+      href: string
+    }
+  }
+}
+
+/**
+ * The version and edition of the PIM
+ * Visible in the response body here: https://api.akeneo.com/api-reference.html#get_system_information
+ */
+export interface SystemInformation {
+  /** Version of the PIM, e.g. `7.0.12`. SaaS editions return a build number rather than a semantic version. */
+  version: string
+
+  /** Edition of the PIM, e.g. `CE`, `EE`, `Serenity`, `Growth Edition` or `Free Trial Edition` */
+  edition: string
+}
+
+/**
+ * The features that are available on the connected PIM, determined from its version and edition
+ */
+export interface AkeneoCapabilities {
+  /** Whether the `with_attribute_options` query parameter can be used on products (since 5.0) */
+  with_attribute_options: boolean
+
+  /** Whether the `with_completenesses` query parameter can be used on products (SaaS only) */
+  with_completenesses: boolean
+
+  /** Whether the `with_enriched_attributes` query parameter can be used on categories (SaaS only) */
+  with_enriched_attributes: boolean
+
+  /** Whether the `with_position` query parameter can be used on categories (SaaS only) */
+  with_position: boolean
+
+  /** Whether the `with_quality_scores` query parameter can be used (since 5.0) */
+  with_quality_scores: boolean
+
+  /** Whether the `with_table_select_options` query parameter can be used on attributes (SaaS only) */
+  with_table_select_options: boolean
+
+  /**
+   * Whether products can be identified by their UUID (since 7.0).
+   * Informational only, it's not checked before requests are made.
+   */
+  uuid_products: boolean
+
+  /**
+   * Whether the asset manager, and so asset families, are available (Enterprise and SaaS editions).
+   * Informational only, it's not checked before requests are made.
+   */
+  asset_families: boolean
+}
+
+/**
+ * The response received when uploading a media file
+ */
+export interface MediaFileWriteResponse extends WriteResponse {
+  /** Code of the uploaded media file, to be used as the attribute value */
+  code: string
+}
+
 /**
  * Interface for the generic results container
  */
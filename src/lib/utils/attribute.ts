@@ -0,0 +1,92 @@
+import { AkeneoError } from '../error'
+import { AttributePayload, AttributeType } from '../types'
+
+/**
+ * The attribute types that each of the type specific attribute properties
+ * may be used with. Any property not listed here is available to all types.
+ */
+export const ATTRIBUTE_TYPE_SPECIFIC_PROPERTIES: Partial<Record<keyof AttributePayload, AttributeType[]>> = {
+  max_characters: ['pim_catalog_text', 'pim_catalog_textarea', 'pim_catalog_identifier'],
+  validation_rule: ['pim_catalog_text', 'pim_catalog_identifier'],
+  validation_regexp: ['pim_catalog_text', 'pim_catalog_identifier'],
+  wysiwyg_enabled: ['pim_catalog_textarea'],
+  number_min: ['pim_catalog_metric', 'pim_catalog_price_collection', 'pim_catalog_number'],
+  number_max: ['pim_catalog_metric', 'pim_catalog_price_collection', 'pim_catalog_number'],
+  decimals_allowed: ['pim_catalog_metric', 'pim_catalog_price_collection', 'pim_catalog_number'],
+  negative_allowed: ['pim_catalog_metric', 'pim_catalog_number'],
+  metric_family: ['pim_catalog_metric'],
+  default_metric_unit: ['pim_catalog_metric'],
+  date_min: ['pim_catalog_date'],
+  date_max: ['pim_catalog_date'],
+  allowed_extensions: ['pim_catalog_file', 'pim_catalog_image'],
+  max_file_size: ['pim_catalog_file', 'pim_catalog_image'],
+  reference_data_name: [
+    'akeneo_reference_entity',
+    'akeneo_reference_entity_collection',
+    'pim_catalog_asset_collection',
+    'pim_reference_data_simpleselect',
+    'pim_reference_data_multiselect',
+  ],
+  default_value: ['pim_catalog_boolean'],
+  table_configuration: ['pim_catalog_table'],
+}
+
+/**
+ * The type specific attribute properties that must be provided when
+ * creating an attribute of the given type.
+ */
+export const ATTRIBUTE_TYPE_REQUIRED_PROPERTIES: Partial<Record<AttributeType, (keyof AttributePayload)[]>> = {
+  pim_catalog_metric: ['metric_family', 'default_metric_unit'],
+  pim_catalog_table: ['table_configuration'],
+  pim_catalog_asset_collection: ['reference_data_name'],
+  akeneo_reference_entity: ['reference_data_name'],
+  akeneo_reference_entity_collection: ['reference_data_name'],
+}
+
+/**
+ * Determine whether a type specific attribute property has been set. Akeneo
+ * returns every property for every attribute type, using `null`, `false` or an
+ * empty array (for `allowed_extensions`) when the property doesn't apply.
+ */
+function isPropertySet(value: unknown) {
+  return value !== null && value !== undefined && value !== false && !(Array.isArray(value) && !value.length)
+}
+
+/**
+ * Ensure that the type specific properties of an attribute are consistent
+ * with the attribute `type`. A property that isn't set (see {@see isPropertySet})
+ * is ignored, so attributes can be sent back exactly as akeneo returns them.
+ *
+ * When the `type` isn't provided (e.g. when partially updating an attribute)
+ * no validation takes place, as the type can't be changed once set. The
+ * required properties are only checked when `isNew` is true, as a partial
+ * update of an existing attribute doesn't need to repeat them.
+ */
+export function validateAttribute(attribute: AttributePayload, isNew = false) {
+  const type = attribute.type
+  if (!type) {
+    return
+  }
+
+  const errors: string[] = []
+  Object.entries(ATTRIBUTE_TYPE_SPECIFIC_PROPERTIES).forEach(([property, types]) => {
+    const value = attribute[property as keyof AttributePayload]
+    if (isPropertySet(value) && !types.includes(type)) {
+      errors.push(`The \`${property}\` property is only available for the ${types.join(', ')} attribute types`)
+    }
+  })
+  if (isNew) {
+    ATTRIBUTE_TYPE_REQUIRED_PROPERTIES[type]?.forEach((property) => {
+      const value = attribute[property]
+      if (value === null || value === undefined) {
+        errors.push(`The \`${property}\` property is required for the ${type} attribute type`)
+      }
+    })
+  }
+
+  if (errors.length) {
+    throw new AkeneoError(
+      `The \`${attribute.code}\` attribute is not valid: \n` + errors.map((error) => `• ${error}`).join('\n'),
+    )
+  }
+}
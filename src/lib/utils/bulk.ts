@@ -0,0 +1,34 @@
+import { AkeneoError } from '../error'
+
+/**
+ * Convert a list of items in to newline delimited JSON, as expected by
+ * akeneo when sending a `application/vnd.akeneo.collection+json` request.
+ */
+export function toNdjson(items: unknown[]): string {
+  return items.map((item) => JSON.stringify(item)).join('\n')
+}
+
+/**
+ * Parse a newline delimited JSON string in to an array of objects.
+ * Empty lines are ignored.
+ */
+export function parseNdjson<T = any>(input: string): T[] {
+  return input
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length)
+    .map((line) => {
+      try {
+        return JSON.parse(line)
+      } catch (e) {
+        throw new AkeneoError(`Unable to parse the line as JSON: ${line}`)
+      }
+    })
+}
+
+/**
+ * Determine whether a single result from a bulk update request failed
+ */
+export function isFailedBulkResult(result: { status_code: number }) {
+  return result.status_code >= 400
+}
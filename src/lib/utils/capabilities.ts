@@ -0,0 +1,67 @@
+import { AkeneoCapabilities, SystemInformation } from '../types'
+
+/**
+ * The editions of the PIM that are hosted and kept up to date by Akeneo
+ */
+export const SAAS_EDITIONS = ['Serenity', 'Growth Edition', 'Free Trial Edition']
+
+/**
+ * The query parameters that are only supported by some versions/editions of the PIM,
+ * along with the capability that must be available in order to use them.
+ */
+export const CAPABILITY_QUERY_PARAMETERS: Record<string, keyof AkeneoCapabilities> = {
+  with_attribute_options: 'with_attribute_options',
+  with_completenesses: 'with_completenesses',
+  with_enriched_attributes: 'with_enriched_attributes',
+  with_position: 'with_position',
+  with_quality_scores: 'with_quality_scores',
+  with_table_select_options: 'with_table_select_options',
+}
+
+/**
+ * Determine whether the given edition is a SaaS edition of the PIM
+ */
+export function isSaasEdition(edition: string) {
+  return SAAS_EDITIONS.some((saasEdition) => saasEdition.toLowerCase() === edition.toLowerCase())
+}
+
+/**
+ * Determine which features are available, based on the version and edition of the PIM.
+ *
+ * SaaS editions are continuously updated, so their version is not a semantic version
+ * number, and they support every feature. For on-premise editions, we only look at
+ * the major version number.
+ *
+ * Only the `with_*` capabilities are enforced, by rejecting the matching query parameters
+ * before the request is made. The others are informational, and it's up to the caller to
+ * check them before using the related endpoints.
+ */
+export function getCapabilities(information: SystemInformation): AkeneoCapabilities {
+  const isSaas = isSaasEdition(information.edition)
+  const majorVersion = parseInt(information.version.replace(/^v/i, ''), 10) || 0
+  const isEnterprise = information.edition.toUpperCase() === 'EE'
+  return {
+    with_attribute_options: isSaas || majorVersion >= 5,
+    with_completenesses: isSaas,
+    with_enriched_attributes: isSaas,
+    with_position: isSaas,
+    with_quality_scores: isSaas || majorVersion >= 5,
+    with_table_select_options: isSaas,
+    uuid_products: isSaas || majorVersion >= 7,
+    asset_families: isEnterprise || (isSaas && information.edition.toLowerCase() !== 'growth edition'),
+  }
+}
+
+/**
+ * Get the query parameters that are given (and not `false`), but that aren't
+ * supported based on the given capabilities
+ */
+export function getUnsupportedQueryParameters(
+  params: Record<string, any> | undefined,
+  capabilities: AkeneoCapabilities,
+): string[] {
+  return Object.keys(CAPABILITY_QUERY_PARAMETERS).filter(
+    (name) =>
+      params?.[name] !== undefined && params[name] !== false && !capabilities[CAPABILITY_QUERY_PARAMETERS[name]],
+  )
+}
@@ -0,0 +1,56 @@
+import { ChannelCode, Family, FamilyPayload } from '../types'
+
+/**
+ * Build the patch needed to add an attribute to a family, and to the
+ * family's attribute requirements for the given channels.
+ *
+ * Akeneo replaces the `attributes` array and each channel's list of
+ * `attribute_requirements` as a whole, so the patch contains the full list
+ * of attributes and the full list of requirements for each changed channel.
+ */
+export function buildAddAttributeToFamilyPatch(
+  family: Pick<Family, 'attributes' | 'attribute_requirements'>,
+  attributeCode: string,
+  requiredForChannels: ChannelCode[] = [],
+): FamilyPayload {
+  const patch: FamilyPayload = {
+    attributes: family.attributes.includes(attributeCode) ? family.attributes : [...family.attributes, attributeCode],
+  }
+  requiredForChannels.forEach((channel) => {
+    const requirements = family.attribute_requirements?.[channel] ?? []
+    if (!requirements.includes(attributeCode)) {
+      patch.attribute_requirements = {
+        ...patch.attribute_requirements,
+        [channel]: [...requirements, attributeCode],
+      }
+    }
+  })
+  return patch
+}
+
+/**
+ * Build the patch needed to remove an attribute from a family.
+ *
+ * When `channels` are given, the attribute is only removed from the
+ * requirements of those channels and remains part of the family. Otherwise
+ * it's removed from the family and from the requirements of every channel.
+ */
+export function buildRemoveAttributeFromFamilyPatch(
+  family: Pick<Family, 'attributes' | 'attribute_requirements'>,
+  attributeCode: string,
+  channels?: ChannelCode[],
+): FamilyPayload {
+  const patch: FamilyPayload = {}
+  if (!channels) {
+    patch.attributes = family.attributes.filter((code) => code !== attributeCode)
+  }
+  Object.entries(family.attribute_requirements ?? {}).forEach(([channel, requirements]) => {
+    if ((!channels || channels.includes(channel)) && requirements.includes(attributeCode)) {
+      patch.attribute_requirements = {
+        ...patch.attribute_requirements,
+        [channel]: requirements.filter((code) => code !== attributeCode),
+      }
+    }
+  })
+  return patch
+}
@@ -1,4 +1,11 @@
+export * from './attribute'
+export * from './bulk'
 export * from './calculate-delay'
+export * from './capabilities'
+export * from './family'
 export * from './format'
 export * from './mask'
+export * from './measurement'
+export * from './multipart'
 export * from './retry-on-conflict'
+export * from './validation-errors'
@@ -0,0 +1,69 @@
+import { AkeneoError } from '../error'
+import { MeasurementConversionOperation, MeasurementFamily, MetricValue } from '../types'
+
+/**
+ * Convert the value of a `pim_catalog_metric` attribute to another unit
+ * of the same measurement family.
+ *
+ * Each unit in a measurement family defines the operations that convert
+ * an amount in that unit to the family's standard unit. We apply the
+ * operations of the source unit to get the standard amount, and then the
+ * inverse of the target unit's operations (in reverse order) to get the
+ * amount in the target unit. This mirrors how akeneo converts metrics.
+ */
+export function convertMetricValue(value: MetricValue, toUnit: string, family: MeasurementFamily): MetricValue {
+  const fromUnitDefinition = family.units[value.unit]
+  if (!fromUnitDefinition) {
+    throw new AkeneoError(`The unit \`${value.unit}\` does not exist in the \`${family.code}\` measurement family`)
+  }
+  const toUnitDefinition = family.units[toUnit]
+  if (!toUnitDefinition) {
+    throw new AkeneoError(`The unit \`${toUnit}\` does not exist in the \`${family.code}\` measurement family`)
+  }
+  const amount = parseAmount(value.amount)
+  if (value.unit === toUnit) {
+    return { amount, unit: toUnit }
+  }
+
+  const standardAmount = fromUnitDefinition.convert_from_standard.reduce(
+    (result, operation) => applyOperation(result, operation),
+    amount,
+  )
+  const convertedAmount = [...toUnitDefinition.convert_from_standard]
+    .reverse()
+    .reduce((result, operation) => applyOperation(result, operation, true), standardAmount)
+
+  return { amount: convertedAmount, unit: toUnit }
+}
+
+/**
+ * Apply a single conversion operation to the given amount, or the
+ * inverse of the operation if `inverse` is true.
+ */
+function applyOperation(amount: number, operation: MeasurementConversionOperation, inverse = false) {
+  const value = parseAmount(operation.value)
+  switch (operation.operator) {
+    case 'mul':
+      return inverse ? amount / value : amount * value
+    case 'div':
+      return inverse ? amount * value : amount / value
+    case 'add':
+      return inverse ? amount - value : amount + value
+    case 'sub':
+      return inverse ? amount + value : amount - value
+    default:
+      throw new AkeneoError(`Unknown conversion operator: ${operation.operator}`)
+  }
+}
+
+/**
+ * Akeneo returns numeric values as strings, so we need to convert them
+ * before doing any arithmetic.
+ */
+function parseAmount(amount: string | number) {
+  const parsed = typeof amount === 'number' ? amount : parseFloat(amount)
+  if (isNaN(parsed)) {
+    throw new AkeneoError(`The amount is not a valid number: ${amount}`)
+  }
+  return parsed
+}
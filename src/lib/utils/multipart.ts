@@ -0,0 +1,91 @@
+import type { Readable } from 'stream'
+
+/**
+ * The file types that can be uploaded to akeneo
+ */
+export type UploadableFile = Buffer | Readable | Blob
+
+/**
+ * The body and headers of a multipart request, ready to be passed to axios
+ */
+export interface MultipartData {
+  data: Buffer | FormData
+  headers: Record<string, string>
+}
+
+/**
+ * Create the multipart form data for uploading a file to akeneo, along with
+ * any additional (string) fields.
+ *
+ * In the browser we use the native `FormData` class. In node, we build the
+ * multipart body ourselves in to a `Buffer`. Unlike a stream, a `Buffer` can
+ * be sent again if the request needs to be retried.
+ */
+export async function createMultipartData(options: {
+  fields: Record<string, string>
+  file: UploadableFile
+  filename: string
+}): Promise<MultipartData> {
+  if (process.env.GEAKU_IS_BROWSER === '1') {
+    const formData = new FormData()
+    Object.entries(options.fields).forEach(([name, value]) => formData.append(name, value))
+    formData.append('file', options.file as Blob, options.filename)
+    return { data: formData, headers: {} }
+  }
+
+  const boundary = `----GeAkeneoUtils${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`
+  const content = await readFileContent(options.file)
+  return {
+    data: buildMultipartBody({ ...options, content, boundary }),
+    headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+  }
+}
+
+/**
+ * Build a `multipart/form-data` request body containing the given fields,
+ * followed by the file content in a field named `file`.
+ */
+export function buildMultipartBody(options: {
+  fields: Record<string, string>
+  content: Buffer
+  filename: string
+  boundary: string
+}): Buffer {
+  const parts: Buffer[] = []
+  Object.entries(options.fields).forEach(([name, value]) => {
+    parts.push(
+      Buffer.from(
+        `--${options.boundary}\r\n` + `Content-Disposition: form-data; name="${name}"\r\n\r\n` + `${value}\r\n`,
+      ),
+    )
+  })
+  parts.push(
+    Buffer.from(
+      `--${options.boundary}\r\n` +
+        `Content-Disposition: form-data; name="file"; filename="${options.filename.replace(/"/g, '%22')}"\r\n` +
+        `Content-Type: application/octet-stream\r\n\r\n`,
+    ),
+  )
+  parts.push(options.content)
+  parts.push(Buffer.from(`\r\n--${options.boundary}--\r\n`))
+  return Buffer.concat(parts)
+}
+
+/**
+ * Read the entire content of a file in to a `Buffer`
+ */
+export async function readFileContent(file: UploadableFile): Promise<Buffer> {
+  if (Buffer.isBuffer(file)) {
+    return file
+  }
+  if (typeof Blob !== 'undefined' && file instanceof Blob) {
+    return Buffer.from(await file.arrayBuffer())
+  }
+  const stream = file as Readable
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    stream.on('data', (chunk) => chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)))
+    stream.on('end', () => resolve(Buffer.concat(chunks)))
+    stream.on('error', reject)
+  })
+}
@@ -0,0 +1,26 @@
+import { ValidationError } from '../types'
+
+/**
+ * Format the validation errors returned by akeneo as a bulleted list,
+ * with one line per error, e.g.:
+ *
+ * ```
+ * • variant_attribute_sets[0].axes: Variant axes "color" must be unique.
+ * • values[weight] (ecommerce, en_GB): This value should be a valid number.
+ * ```
+ */
+export function formatValidationErrors(errors: ValidationError[]) {
+  return errors
+    .map((error) => {
+      let property = error.property
+      if (error.attribute) {
+        property += `[${error.attribute}]`
+      }
+      const context = [error.scope, error.locale].filter((value) => value).join(', ')
+      if (context) {
+        property += ` (${context})`
+      }
+      return `• ${property}: ${error.message}`
+    })
+    .join('\n')
+}
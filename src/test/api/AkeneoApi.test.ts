@@ -1,7 +1,8 @@
 import nock from 'nock'
-import { AkeneoApi, AkeneoApiConfig, AkeneoError } from '../../lib'
+import { AkeneoApi, AkeneoApiConfig, AkeneoError, readFileContent } from '../../lib'
 import { AkeneoGrantResponse } from '../../lib/auth/types'
 import * as https from 'https'
+import { Readable } from 'stream'
 
 const defaultConfig: AkeneoApiConfig = {
   username: 'test-username',
@@ -70,6 +71,48 @@ describe('AkeneoApi', () => {
     it('should bubble up the error if `validateConfig` method throws an error', () => {
       expect(() => new AkeneoApi({ ...defaultConfig, endpoint: '' })).toThrowError()
     })
+
+    it('should not create an `AkeneoAuth` instance when an app access token is given', () => {
+      const api = new AkeneoApi({ endpoint: 'https://test-endpoint', accessToken: 'test-app-token' })
+
+      expect(api.auth).toBeUndefined()
+    })
+
+    it('should throw an error when the app access token is empty', () => {
+      expect(() => new AkeneoApi({ endpoint: 'https://test-endpoint', accessToken: '' })).toThrowError(
+        'The configuration object passed in to the `AkeneoApi` constructor is not valid: \n' +
+          '• The `accessToken` property is empty',
+      )
+    })
+
+    it('should throw a validation error when the config is not an object', () => {
+      expect(() => AkeneoApi.validateConfig('https://test-endpoint')).toThrowError(
+        'The configuration object passed in to the `AkeneoApi` constructor is not valid: \n' +
+          '• The `endpoint` property is empty',
+      )
+    })
+  })
+
+  describe('app access token', () => {
+    it('should send the app access token without requesting a client grant', async () => {
+      const scope = nock('https://test-endpoint', { reqheaders: { authorization: 'Bearer test-app-token' } })
+        .get('/api/rest/v1/products/sku-1')
+        .reply(200, { identifier: 'sku-1' })
+      const api = new AkeneoApi({ endpoint: 'https://test-endpoint', accessToken: 'test-app-token' })
+
+      const result = await api.getProduct({ code: 'sku-1' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ identifier: 'sku-1' })
+    })
+
+    it('should reject when a client grant is requested', async () => {
+      const api = new AkeneoApi({ endpoint: 'https://test-endpoint', accessToken: 'test-app-token' })
+
+      await expect(api.getClientGrant()).rejects.toThrow(
+        'A client grant is not available when using an app access token',
+      )
+    })
   })
 
   describe('createAxiosInstance', () => {
@@ -509,6 +552,2213 @@ describe('AkeneoApi', () => {
     })
   })
 
+  describe('getCategory', () => {
+    it('should GET the category, passing through the query parameters', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/system-information')
+        .reply(200, { version: 'v20230918000000', edition: 'Serenity' })
+        .get('/api/rest/v1/categories/winter')
+        .query({ with_position: 'true', with_enriched_attributes: 'true' })
+        .reply(200, { code: 'winter', parent: 'master', position: 2, labels: { en_GB: 'Winter' } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getCategory({
+        code: 'winter',
+        params: { with_position: true, with_enriched_attributes: true },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'winter', parent: 'master', position: 2, labels: { en_GB: 'Winter' } })
+    })
+  })
+
+  describe('createCategory', () => {
+    it('should POST the category and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/categories', { code: 'winter', parent: 'master' })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/categories/winter' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createCategory({ data: { code: 'winter', parent: 'master' } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: 'https://test-endpoint/api/rest/v1/categories/winter' })
+    })
+  })
+
+  describe('upsertCategory', () => {
+    it('should PATCH the category and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/categories/winter', { labels: { en_GB: 'Winter' } })
+        .reply(204, '', { Location: 'https://test-endpoint/api/rest/v1/categories/winter' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertCategory({ code: 'winter', data: { labels: { en_GB: 'Winter' } } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: 'https://test-endpoint/api/rest/v1/categories/winter' })
+    })
+  })
+
+  describe('upsertListOfCategories', () => {
+    it('should PATCH the categories as newline delimited JSON and parse each line of the response', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/categories', '{"code":"winter","parent":"master"}\n{"code":"summer","parent":"master"}')
+        .reply(200, '{"line":1,"code":"winter","status_code":201}\n{"line":2,"code":"summer","status_code":204}')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfCategories({
+        data: [
+          { code: 'winter', parent: 'master' },
+          { code: 'summer', parent: 'master' },
+        ],
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { line: 1, code: 'winter', status_code: 201 },
+        { line: 2, code: 'summer', status_code: 204 },
+      ])
+    })
+  })
+
+  describe('createProduct', () => {
+    it('should POST the product and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/products', { identifier: 'test-sku', family: 'shoes' })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/products/test-sku' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createProduct({ data: { identifier: 'test-sku', family: 'shoes' } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: 'https://test-endpoint/api/rest/v1/products/test-sku' })
+    })
+
+    it('should throw an AkeneoError when the product fails validation', async () => {
+      nock('https://test-endpoint')
+        .post('/api/rest/v1/products')
+        .reply(422, { code: 422, message: 'Validation failed.', errors: [] })
+      const api = new AkeneoApi(defaultConfig)
+
+      await expect(api.createProduct({ data: { identifier: 'test-sku' } })).rejects.toThrow(
+        'Request failed with status code 422',
+      )
+    })
+  })
+
+  describe('upsertProduct', () => {
+    it('should PATCH the product and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/products/test%2Fsku', { enabled: false })
+        .reply(204, '', { Location: 'https://test-endpoint/api/rest/v1/products/test%2Fsku' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertProduct({ code: 'test/sku', data: { enabled: false } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: 'https://test-endpoint/api/rest/v1/products/test%2Fsku' })
+    })
+  })
+
+  describe('upsertListOfProducts', () => {
+    it('should PATCH the products as newline delimited JSON and parse each line of the response', async () => {
+      const scope = nock('https://test-endpoint', {
+        reqheaders: { 'content-type': 'application/vnd.akeneo.collection+json' },
+      })
+        .patch('/api/rest/v1/products', '{"identifier":"sku-1","enabled":true}\n{"identifier":"sku-2"}')
+        .reply(
+          200,
+          '{"line":1,"identifier":"sku-1","status_code":204}\n' +
+            '{"line":2,"identifier":"sku-2","status_code":422,"message":"Validation failed.",' +
+            '"errors":[{"property":"family","message":"Property \\"family\\" expects a valid family code."}]}',
+          { 'Content-Type': 'application/vnd.akeneo.collection+json' },
+        )
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfProducts({
+        data: [{ identifier: 'sku-1', enabled: true }, { identifier: 'sku-2' }],
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { line: 1, identifier: 'sku-1', status_code: 204 },
+        {
+          line: 2,
+          identifier: 'sku-2',
+          status_code: 422,
+          message: 'Validation failed.',
+          errors: [{ property: 'family', message: 'Property "family" expects a valid family code.' }],
+        },
+      ])
+    })
+
+    it('should parse a single line response as a list', async () => {
+      nock('https://test-endpoint')
+        .patch('/api/rest/v1/products')
+        .reply(200, '{"line":1,"identifier":"sku-1","status_code":201}')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfProducts({ data: [{ identifier: 'sku-1' }] })
+
+      expect(result).toEqual([{ line: 1, identifier: 'sku-1', status_code: 201 }])
+    })
+
+    it('should parse the JSON error body when akeneo rejects the entire payload', async () => {
+      nock('https://test-endpoint')
+        .patch('/api/rest/v1/products')
+        .reply(413, '{"code":413,"message":"Too many resources to process, 100 is the maximum allowed."}', {
+          'Content-Type': 'application/json',
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      await expect(api.upsertListOfProducts({ data: [{ identifier: 'sku-1' }] })).rejects.toMatchObject({
+        status: 413,
+        data: {
+          response: {
+            data: { code: 413, message: 'Too many resources to process, 100 is the maximum allowed.' },
+          },
+        },
+      })
+    })
+
+    it('should not make a request when no products are given', async () => {
+      const api = new AkeneoApi(defaultConfig)
+
+      await expect(api.upsertListOfProducts({ data: [] })).resolves.toEqual([])
+    })
+
+    it('should throw an error when more than 100 products are given', async () => {
+      const api = new AkeneoApi(defaultConfig)
+      const data = Array.from({ length: 101 }, (_, i) => ({ identifier: `sku-${i}` }))
+
+      await expect(api.upsertListOfProducts({ data })).rejects.toThrow(
+        'A maximum of 100 items can be sent in a single bulk request, but 101 were given',
+      )
+    })
+  })
+
+  describe('getProductUuid', () => {
+    it('should GET the product by its UUID', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/system-information')
+        .reply(200, { version: 'v20230918000000', edition: 'Serenity' })
+        .get('/api/rest/v1/products-uuid/25566245-55a6-4c4b-a3b3-4c4a0b5f1a2d')
+        .query({ with_quality_scores: 'true' })
+        .reply(200, { uuid: '25566245-55a6-4c4b-a3b3-4c4a0b5f1a2d', enabled: true })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getProductUuid({
+        uuid: '25566245-55a6-4c4b-a3b3-4c4a0b5f1a2d',
+        params: { with_quality_scores: true },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ uuid: '25566245-55a6-4c4b-a3b3-4c4a0b5f1a2d', enabled: true })
+    })
+  })
+
+  describe('getListOfProductsUuid', () => {
+    it('should follow the next links when `fetchAll` is true', async () => {
+      nock('https://test-endpoint')
+        .get('/api/rest/v1/products-uuid')
+        .query({ pagination_type: 'search_after' })
+        .reply(200, {
+          _links: {
+            first: { href: 'https://test-endpoint/api/rest/v1/products-uuid?pagination_type=search_after' },
+            next: { href: 'https://test-endpoint/api/rest/v1/products-uuid?search_after=abc' },
+          },
+          _embedded: { items: [{ uuid: 'uuid-1' }] },
+        })
+      nock('https://test-endpoint')
+        .get('/api/rest/v1/products-uuid')
+        .query({ search_after: 'abc' })
+        .reply(200, {
+          _links: {},
+          _embedded: { items: [{ uuid: 'uuid-2' }] },
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfProductsUuid({ fetchAll: true, params: { pagination_type: 'search_after' } })
+
+      expect(result).toEqual({
+        _links: {
+          first: { href: 'https://test-endpoint/api/rest/v1/products-uuid?pagination_type=search_after' },
+        },
+        _embedded: { items: [{ uuid: 'uuid-1' }, { uuid: 'uuid-2' }] },
+      })
+    })
+  })
+
+  describe('createProductUuid', () => {
+    it('should POST the product and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/products-uuid', { uuid: 'uuid-1', family: 'shoes' })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/products-uuid/uuid-1' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createProductUuid({ data: { uuid: 'uuid-1', family: 'shoes' } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: 'https://test-endpoint/api/rest/v1/products-uuid/uuid-1' })
+    })
+  })
+
+  describe('upsertProductUuid', () => {
+    it('should PATCH the product and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/products-uuid/uuid-1', { enabled: false })
+        .reply(204, '', { Location: 'https://test-endpoint/api/rest/v1/products-uuid/uuid-1' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertProductUuid({ uuid: 'uuid-1', data: { enabled: false } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: 'https://test-endpoint/api/rest/v1/products-uuid/uuid-1' })
+    })
+  })
+
+  describe('upsertListOfProductsUuid', () => {
+    it('should PATCH the products as newline delimited JSON and parse each line of the response', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/products-uuid', '{"uuid":"uuid-1"}\n{"uuid":"uuid-2"}')
+        .reply(200, '{"line":1,"uuid":"uuid-1","status_code":201}\n{"line":2,"uuid":"uuid-2","status_code":204}')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfProductsUuid({ data: [{ uuid: 'uuid-1' }, { uuid: 'uuid-2' }] })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { line: 1, uuid: 'uuid-1', status_code: 201 },
+        { line: 2, uuid: 'uuid-2', status_code: 204 },
+      ])
+    })
+  })
+
+  describe('deleteProductUuid', () => {
+    it('should DELETE the product by its UUID', async () => {
+      const scope = nock('https://test-endpoint').delete('/api/rest/v1/products-uuid/uuid-1').reply(204)
+      const api = new AkeneoApi(defaultConfig)
+
+      await api.deleteProductUuid({ uuid: 'uuid-1' })
+
+      expect(scope.isDone()).toBe(true)
+    })
+  })
+
+  describe('createProductModel', () => {
+    it('should POST the product model and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/product-models', { code: 'tshirt', family: 'clothing', family_variant: 'clothing_size' })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/product-models/tshirt' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createProductModel({
+        data: { code: 'tshirt', family: 'clothing', family_variant: 'clothing_size' },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: 'https://test-endpoint/api/rest/v1/product-models/tshirt' })
+    })
+  })
+
+  describe('upsertProductModel', () => {
+    it('should PATCH the product model and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/product-models/tshirt', { categories: ['summer'] })
+        .reply(204, '', { Location: 'https://test-endpoint/api/rest/v1/product-models/tshirt' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertProductModel({ code: 'tshirt', data: { categories: ['summer'] } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: 'https://test-endpoint/api/rest/v1/product-models/tshirt' })
+    })
+  })
+
+  describe('upsertListOfProductModels', () => {
+    it('should PATCH the product models as newline delimited JSON and parse each line of the response', async () => {
+      const scope = nock('https://test-endpoint', {
+        reqheaders: { 'content-type': 'application/vnd.akeneo.collection+json' },
+      })
+        .patch('/api/rest/v1/product-models', '{"code":"tshirt"}\n{"code":"jeans","parent":"unknown"}')
+        .reply(
+          200,
+          '{"line":1,"code":"tshirt","status_code":204}\n' +
+            '{"line":2,"code":"jeans","status_code":422,"message":"Validation failed.",' +
+            '"errors":[{"property":"parent","message":"The parent is not a product model."}]}',
+        )
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfProductModels({
+        data: [{ code: 'tshirt' }, { code: 'jeans', parent: 'unknown' }],
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { line: 1, code: 'tshirt', status_code: 204 },
+        {
+          line: 2,
+          code: 'jeans',
+          status_code: 422,
+          message: 'Validation failed.',
+          errors: [{ property: 'parent', message: 'The parent is not a product model.' }],
+        },
+      ])
+    })
+  })
+
+  describe('getAttribute', () => {
+    it('should GET the attribute', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/attributes/weight')
+        .reply(200, { code: 'weight', type: 'pim_catalog_metric' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getAttribute({ code: 'weight' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'weight', type: 'pim_catalog_metric' })
+    })
+  })
+
+  describe('createAttribute', () => {
+    it('should POST the attribute and return the status code and location', async () => {
+      const data = {
+        code: 'weight',
+        type: 'pim_catalog_metric' as const,
+        group: 'technical',
+        metric_family: 'Weight',
+        default_metric_unit: 'KILOGRAM',
+      }
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/attributes', data)
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/attributes/weight' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createAttribute({ data })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: 'https://test-endpoint/api/rest/v1/attributes/weight' })
+    })
+
+    it('should not send the request when the attribute is not valid', async () => {
+      const api = new AkeneoApi(defaultConfig)
+
+      await expect(
+        api.createAttribute({ data: { code: 'weight', type: 'pim_catalog_metric', group: 'technical' } }),
+      ).rejects.toThrow('The `weight` attribute is not valid')
+    })
+  })
+
+  describe('upsertAttribute', () => {
+    it('should PATCH the attribute and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/attributes/weight', { labels: { en_GB: 'Weight' } })
+        .reply(204, '', { Location: 'https://test-endpoint/api/rest/v1/attributes/weight' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertAttribute({ code: 'weight', data: { labels: { en_GB: 'Weight' } } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: 'https://test-endpoint/api/rest/v1/attributes/weight' })
+    })
+  })
+
+  describe('upsertListOfAttributes', () => {
+    it('should PATCH the attributes as newline delimited JSON and parse each line of the response', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/attributes', '{"code":"weight","sort_order":1}\n{"code":"colour","sort_order":2}')
+        .reply(200, '{"line":1,"code":"weight","status_code":204}\n{"line":2,"code":"colour","status_code":204}')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfAttributes({
+        data: [
+          { code: 'weight', sort_order: 1 },
+          { code: 'colour', sort_order: 2 },
+        ],
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { line: 1, code: 'weight', status_code: 204 },
+        { line: 2, code: 'colour', status_code: 204 },
+      ])
+    })
+
+    it('should not send the request when any of the attributes are not valid', async () => {
+      const api = new AkeneoApi(defaultConfig)
+
+      await expect(
+        api.upsertListOfAttributes({
+          data: [
+            { code: 'weight', sort_order: 1 },
+            { code: 'colour', type: 'pim_catalog_simpleselect', max_characters: 10 },
+          ],
+        }),
+      ).rejects.toThrow('The `colour` attribute is not valid')
+    })
+  })
+
+  describe('getAttributeOption', () => {
+    it('should GET the attribute option', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/attributes/colour/options/red')
+        .reply(200, { code: 'red', attribute: 'colour', sort_order: 1, labels: { en_GB: 'Red' } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getAttributeOption({ attributeCode: 'colour', code: 'red' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'red', attribute: 'colour', sort_order: 1, labels: { en_GB: 'Red' } })
+    })
+  })
+
+  describe('createAttributeOption', () => {
+    it('should POST the attribute option and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/attributes/colour/options', { code: 'red', labels: { en_GB: 'Red' } })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/attributes/colour/options/red' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createAttributeOption({
+        attributeCode: 'colour',
+        data: { code: 'red', labels: { en_GB: 'Red' } },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({
+        status: 201,
+        location: 'https://test-endpoint/api/rest/v1/attributes/colour/options/red',
+      })
+    })
+  })
+
+  describe('upsertAttributeOption', () => {
+    it('should PATCH the attribute option and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/attributes/colour/options/red', { sort_order: 3 })
+        .reply(204, '', { Location: 'https://test-endpoint/api/rest/v1/attributes/colour/options/red' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertAttributeOption({ attributeCode: 'colour', code: 'red', data: { sort_order: 3 } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({
+        status: 204,
+        location: 'https://test-endpoint/api/rest/v1/attributes/colour/options/red',
+      })
+    })
+  })
+
+  describe('upsertListOfAttributeOptions', () => {
+    it('should PATCH the attribute options as newline delimited JSON and parse each line of the response', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/attributes/colour/options', '{"code":"red"}\n{"code":"blue"}')
+        .reply(200, '{"line":1,"code":"red","status_code":201}\n{"line":2,"code":"blue","status_code":201}')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfAttributeOptions({
+        attributeCode: 'colour',
+        data: [{ code: 'red' }, { code: 'blue' }],
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { line: 1, code: 'red', status_code: 201 },
+        { line: 2, code: 'blue', status_code: 201 },
+      ])
+    })
+  })
+
+  describe('getListOfAttributeGroups', () => {
+    it('should follow the next links when `fetchAll` is true', async () => {
+      nock('https://test-endpoint')
+        .get('/api/rest/v1/attribute-groups')
+        .reply(200, {
+          _links: {
+            first: { href: 'https://test-endpoint/api/rest/v1/attribute-groups?page=1' },
+            next: { href: 'https://test-endpoint/api/rest/v1/attribute-groups?page=2' },
+          },
+          _embedded: { items: [{ code: 'a' }] },
+        })
+      nock('https://test-endpoint')
+        .get('/api/rest/v1/attribute-groups')
+        .query({ page: 2 })
+        .reply(200, {
+          _links: {},
+          _embedded: { items: [{ code: 'b' }] },
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfAttributeGroups({ fetchAll: true })
+
+      expect(result).toEqual({
+        _links: { first: { href: 'https://test-endpoint/api/rest/v1/attribute-groups?page=1' } },
+        _embedded: { items: [{ code: 'a' }, { code: 'b' }] },
+      })
+    })
+  })
+
+  describe('getAttributeGroup', () => {
+    it('should GET the attribute group', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/attribute-groups/marketing')
+        .reply(200, {
+          code: 'marketing',
+          sort_order: 1,
+          attributes: ['name', 'description'],
+          labels: { en_GB: 'Marketing' },
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getAttributeGroup({ code: 'marketing' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({
+        code: 'marketing',
+        sort_order: 1,
+        attributes: ['name', 'description'],
+        labels: { en_GB: 'Marketing' },
+      })
+    })
+  })
+
+  describe('createAttributeGroup', () => {
+    it('should POST the attribute group and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/attribute-groups', {
+          code: 'marketing',
+          sort_order: 1,
+          attributes: ['name', 'description'],
+          labels: { en_GB: 'Marketing' },
+        })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/attribute-groups/marketing' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createAttributeGroup({
+        data: { code: 'marketing', sort_order: 1, attributes: ['name', 'description'], labels: { en_GB: 'Marketing' } },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: 'https://test-endpoint/api/rest/v1/attribute-groups/marketing' })
+    })
+  })
+
+  describe('upsertAttributeGroup', () => {
+    it('should PATCH the attribute group and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/attribute-groups/marketing', { sort_order: 2 })
+        .reply(204, '', { Location: 'https://test-endpoint/api/rest/v1/attribute-groups/marketing' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertAttributeGroup({ code: 'marketing', data: { sort_order: 2 } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: 'https://test-endpoint/api/rest/v1/attribute-groups/marketing' })
+    })
+  })
+
+  describe('upsertListOfAttributeGroups', () => {
+    it('should PATCH the attribute groups as newline delimited JSON and parse each line of the response', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/attribute-groups', '{"code":"a"}\n{"code":"b"}')
+        .reply(200, '{"line":1,"code":"a","status_code":201}\n{"line":2,"code":"b","status_code":204}')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfAttributeGroups({ data: [{ code: 'a' }, { code: 'b' }] })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { line: 1, code: 'a', status_code: 201 },
+        { line: 2, code: 'b', status_code: 204 },
+      ])
+    })
+  })
+
+  describe('getListOfAssociationTypes', () => {
+    it('should follow the next links when `fetchAll` is true', async () => {
+      nock('https://test-endpoint')
+        .get('/api/rest/v1/association-types')
+        .reply(200, {
+          _links: {
+            first: { href: 'https://test-endpoint/api/rest/v1/association-types?page=1' },
+            next: { href: 'https://test-endpoint/api/rest/v1/association-types?page=2' },
+          },
+          _embedded: { items: [{ code: 'a' }] },
+        })
+      nock('https://test-endpoint')
+        .get('/api/rest/v1/association-types')
+        .query({ page: 2 })
+        .reply(200, {
+          _links: {},
+          _embedded: { items: [{ code: 'b' }] },
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfAssociationTypes({ fetchAll: true })
+
+      expect(result).toEqual({
+        _links: { first: { href: 'https://test-endpoint/api/rest/v1/association-types?page=1' } },
+        _embedded: { items: [{ code: 'a' }, { code: 'b' }] },
+      })
+    })
+  })
+
+  describe('getAssociationType', () => {
+    it('should GET the association type', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/association-types/upsell')
+        .reply(200, { code: 'upsell', labels: { en_GB: 'Upsell' }, is_quantified: false, is_two_way: false })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getAssociationType({ code: 'upsell' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'upsell', labels: { en_GB: 'Upsell' }, is_quantified: false, is_two_way: false })
+    })
+  })
+
+  describe('createAssociationType', () => {
+    it('should POST the association type and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/association-types', {
+          code: 'upsell',
+          labels: { en_GB: 'Upsell' },
+          is_quantified: false,
+          is_two_way: false,
+        })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/association-types/upsell' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createAssociationType({
+        data: { code: 'upsell', labels: { en_GB: 'Upsell' }, is_quantified: false, is_two_way: false },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: 'https://test-endpoint/api/rest/v1/association-types/upsell' })
+    })
+  })
+
+  describe('upsertAssociationType', () => {
+    it('should PATCH the association type and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/association-types/upsell', { labels: { en_GB: 'Up-sell' } })
+        .reply(204, '', { Location: 'https://test-endpoint/api/rest/v1/association-types/upsell' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertAssociationType({ code: 'upsell', data: { labels: { en_GB: 'Up-sell' } } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: 'https://test-endpoint/api/rest/v1/association-types/upsell' })
+    })
+  })
+
+  describe('upsertListOfAssociationTypes', () => {
+    it('should PATCH the association types as newline delimited JSON and parse each line of the response', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/association-types', '{"code":"a"}\n{"code":"b"}')
+        .reply(200, '{"line":1,"code":"a","status_code":201}\n{"line":2,"code":"b","status_code":204}')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfAssociationTypes({ data: [{ code: 'a' }, { code: 'b' }] })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { line: 1, code: 'a', status_code: 201 },
+        { line: 2, code: 'b', status_code: 204 },
+      ])
+    })
+  })
+
+  describe('getListOfChannels', () => {
+    it('should follow the next links when `fetchAll` is true', async () => {
+      nock('https://test-endpoint')
+        .get('/api/rest/v1/channels')
+        .reply(200, {
+          _links: {
+            first: { href: 'https://test-endpoint/api/rest/v1/channels?page=1' },
+            next: { href: 'https://test-endpoint/api/rest/v1/channels?page=2' },
+          },
+          _embedded: { items: [{ code: 'a' }] },
+        })
+      nock('https://test-endpoint')
+        .get('/api/rest/v1/channels')
+        .query({ page: 2 })
+        .reply(200, {
+          _links: {},
+          _embedded: { items: [{ code: 'b' }] },
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfChannels({ fetchAll: true })
+
+      expect(result).toEqual({
+        _links: { first: { href: 'https://test-endpoint/api/rest/v1/channels?page=1' } },
+        _embedded: { items: [{ code: 'a' }, { code: 'b' }] },
+      })
+    })
+  })
+
+  describe('getChannel', () => {
+    it('should GET the channel', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/channels/ecommerce')
+        .reply(200, {
+          code: 'ecommerce',
+          locales: ['en_GB', 'fr_FR'],
+          currencies: ['GBP', 'EUR'],
+          category_tree: 'master',
+          conversion_units: { weight: 'KILOGRAM' },
+          labels: { en_GB: 'Ecommerce' },
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getChannel({ code: 'ecommerce' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({
+        code: 'ecommerce',
+        locales: ['en_GB', 'fr_FR'],
+        currencies: ['GBP', 'EUR'],
+        category_tree: 'master',
+        conversion_units: { weight: 'KILOGRAM' },
+        labels: { en_GB: 'Ecommerce' },
+      })
+    })
+  })
+
+  describe('createChannel', () => {
+    it('should POST the channel and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/channels', {
+          code: 'ecommerce',
+          locales: ['en_GB', 'fr_FR'],
+          currencies: ['GBP', 'EUR'],
+          category_tree: 'master',
+          conversion_units: { weight: 'KILOGRAM' },
+          labels: { en_GB: 'Ecommerce' },
+        })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/channels/ecommerce' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createChannel({
+        data: {
+          code: 'ecommerce',
+          locales: ['en_GB', 'fr_FR'],
+          currencies: ['GBP', 'EUR'],
+          category_tree: 'master',
+          conversion_units: { weight: 'KILOGRAM' },
+          labels: { en_GB: 'Ecommerce' },
+        },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: 'https://test-endpoint/api/rest/v1/channels/ecommerce' })
+    })
+  })
+
+  describe('upsertChannel', () => {
+    it('should PATCH the channel and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/channels/ecommerce', { currencies: ['GBP', 'EUR', 'USD'] })
+        .reply(204, '', { Location: 'https://test-endpoint/api/rest/v1/channels/ecommerce' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertChannel({ code: 'ecommerce', data: { currencies: ['GBP', 'EUR', 'USD'] } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: 'https://test-endpoint/api/rest/v1/channels/ecommerce' })
+    })
+  })
+
+  describe('upsertListOfChannels', () => {
+    it('should PATCH the channels as newline delimited JSON and parse each line of the response', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/channels', '{"code":"a"}\n{"code":"b"}')
+        .reply(200, '{"line":1,"code":"a","status_code":201}\n{"line":2,"code":"b","status_code":204}')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfChannels({ data: [{ code: 'a' }, { code: 'b' }] })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { line: 1, code: 'a', status_code: 201 },
+        { line: 2, code: 'b', status_code: 204 },
+      ])
+    })
+  })
+
+  describe('getListOfLocales', () => {
+    it('should GET the list of locales', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/locales')
+        .reply(200, { _links: {}, _embedded: { items: [{ code: 'en_GB', enabled: true }] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfLocales()
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ _links: {}, _embedded: { items: [{ code: 'en_GB', enabled: true }] } })
+    })
+
+    it('should convert the `enabled` option in to a search filter', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/locales')
+        .query({ search: '{"enabled":[{"operator":"=","value":true}]}', limit: 100 })
+        .reply(200, { _links: {}, _embedded: { items: [{ code: 'en_GB', enabled: true }] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      await api.getListOfLocales({ enabled: true, params: { limit: 100 } })
+
+      expect(scope.isDone()).toBe(true)
+    })
+
+    it('should not override an explicit `search` parameter with the `enabled` option', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/locales')
+        .query({ search: '{"enabled":[{"operator":"=","value":false}]}' })
+        .reply(200, { _links: {}, _embedded: { items: [] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      await api.getListOfLocales({
+        enabled: true,
+        params: { search: '{"enabled":[{"operator":"=","value":false}]}' },
+      })
+
+      expect(scope.isDone()).toBe(true)
+    })
+  })
+
+  describe('getLocale', () => {
+    it('should GET the locale', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/locales/en_GB')
+        .reply(200, { code: 'en_GB', enabled: true })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getLocale({ code: 'en_GB' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'en_GB', enabled: true })
+    })
+  })
+
+  describe('getListOfCurrencies', () => {
+    it('should GET the list of currencies', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/currencies')
+        .reply(200, { _links: {}, _embedded: { items: [{ code: 'GBP', enabled: true }] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfCurrencies()
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ _links: {}, _embedded: { items: [{ code: 'GBP', enabled: true }] } })
+    })
+  })
+
+  describe('getCurrency', () => {
+    it('should GET the currency', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/currencies/GBP')
+        .reply(200, { code: 'GBP', enabled: true })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getCurrency({ code: 'GBP' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'GBP', enabled: true })
+    })
+  })
+
+  describe('getListOfMeasurementFamilies', () => {
+    it('should GET the list of measurement families', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/measurement-families')
+        .reply(200, [{ code: 'Weight', standard_unit_code: 'KILOGRAM' }])
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfMeasurementFamilies()
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([{ code: 'Weight', standard_unit_code: 'KILOGRAM' }])
+    })
+  })
+
+  describe('upsertListOfMeasurementFamilies', () => {
+    it('should PATCH the measurement families as a JSON array and return the result for each item', async () => {
+      const scope = nock('https://test-endpoint', {
+        reqheaders: { 'content-type': 'application/json' },
+      })
+        .patch('/api/rest/v1/measurement-families', [
+          { code: 'Weight', labels: { en_GB: 'Weight' } },
+          { code: 'Length', standard_unit_code: 'UNKNOWN' },
+        ])
+        .reply(200, [
+          { code: 'Weight', status_code: 204 },
+          {
+            code: 'Length',
+            status_code: 422,
+            message: 'The measurement family has data that does not comply with the business rules.',
+            errors: [{ property: 'standard_unit_code', message: 'The standard unit code does not exist.' }],
+          },
+        ])
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfMeasurementFamilies({
+        data: [
+          { code: 'Weight', labels: { en_GB: 'Weight' } },
+          { code: 'Length', standard_unit_code: 'UNKNOWN' },
+        ],
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { code: 'Weight', status_code: 204 },
+        {
+          code: 'Length',
+          status_code: 422,
+          message: 'The measurement family has data that does not comply with the business rules.',
+          errors: [{ property: 'standard_unit_code', message: 'The standard unit code does not exist.' }],
+        },
+      ])
+    })
+
+    it('should throw an error when more than 100 measurement families are given', async () => {
+      const api = new AkeneoApi(defaultConfig)
+      const data = Array.from({ length: 101 }, (_, i) => ({ code: `family_${i}` }))
+
+      await expect(api.upsertListOfMeasurementFamilies({ data })).rejects.toThrow(
+        'A maximum of 100 items can be sent in a single bulk request, but 101 were given',
+      )
+    })
+  })
+
+  describe('createFamily', () => {
+    it('should POST the family and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/families', { code: 'shoes', attribute_as_label: 'name', attributes: ['sku', 'name'] })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/families/shoes' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createFamily({
+        data: { code: 'shoes', attribute_as_label: 'name', attributes: ['sku', 'name'] },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: 'https://test-endpoint/api/rest/v1/families/shoes' })
+    })
+  })
+
+  describe('upsertFamily', () => {
+    it('should PATCH the family and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/families/shoes', { labels: { en_GB: 'Shoes' } })
+        .reply(204, '', { Location: 'https://test-endpoint/api/rest/v1/families/shoes' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertFamily({ code: 'shoes', data: { labels: { en_GB: 'Shoes' } } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: 'https://test-endpoint/api/rest/v1/families/shoes' })
+    })
+  })
+
+  describe('upsertListOfFamilies', () => {
+    it('should PATCH the families as newline delimited JSON and parse each line of the response', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/families', '{"code":"shoes"}\n{"code":"hats"}')
+        .reply(200, '{"line":1,"code":"shoes","status_code":204}\n{"line":2,"code":"hats","status_code":201}')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfFamilies({ data: [{ code: 'shoes' }, { code: 'hats' }] })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { line: 1, code: 'shoes', status_code: 204 },
+        { line: 2, code: 'hats', status_code: 201 },
+      ])
+    })
+  })
+
+  describe('addAttributeToFamily', () => {
+    it('should fetch the family and PATCH the attributes and requirements', async () => {
+      nock('https://test-endpoint')
+        .get('/api/rest/v1/families/shoes')
+        .reply(200, {
+          code: 'shoes',
+          attributes: ['sku', 'name'],
+          attribute_requirements: { ecommerce: ['sku'], print: ['sku'] },
+        })
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/families/shoes', {
+          attributes: ['sku', 'name', 'weight'],
+          attribute_requirements: { ecommerce: ['sku', 'weight'] },
+        })
+        .reply(204)
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.addAttributeToFamily({
+        familyCode: 'shoes',
+        attributeCode: 'weight',
+        requiredForChannels: ['ecommerce'],
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result.status).toBe(204)
+    })
+  })
+
+  describe('removeAttributeFromFamily', () => {
+    it('should fetch the family and PATCH the attributes and requirements', async () => {
+      nock('https://test-endpoint')
+        .get('/api/rest/v1/families/shoes')
+        .reply(200, {
+          code: 'shoes',
+          attributes: ['sku', 'name', 'weight'],
+          attribute_requirements: { ecommerce: ['sku', 'weight'], print: ['sku'] },
+        })
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/families/shoes', {
+          attributes: ['sku', 'name'],
+          attribute_requirements: { ecommerce: ['sku'] },
+        })
+        .reply(204)
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.removeAttributeFromFamily({ familyCode: 'shoes', attributeCode: 'weight' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result.status).toBe(204)
+    })
+  })
+
+  describe('getFamilyVariant', () => {
+    it('should GET the family variant', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/families/clothing/variants/clothing_size')
+        .reply(200, { code: 'clothing_size', variant_attribute_sets: [{ level: 1, axes: ['size'], attributes: [] }] })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getFamilyVariant({ familyCode: 'clothing', code: 'clothing_size' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({
+        code: 'clothing_size',
+        variant_attribute_sets: [{ level: 1, axes: ['size'], attributes: [] }],
+      })
+    })
+  })
+
+  describe('createFamilyVariant', () => {
+    it('should POST the family variant and return the status code and location', async () => {
+      const data = {
+        code: 'clothing_size',
+        variant_attribute_sets: [{ level: 1, axes: ['size'], attributes: ['sku'] }],
+      }
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/families/clothing/variants', data)
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/families/clothing/variants/clothing_size' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createFamilyVariant({ familyCode: 'clothing', data })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({
+        status: 201,
+        location: 'https://test-endpoint/api/rest/v1/families/clothing/variants/clothing_size',
+      })
+    })
+
+    it('should throw an error listing the validation errors when the family variant is not valid', async () => {
+      nock('https://test-endpoint')
+        .post('/api/rest/v1/families/clothing/variants')
+        .reply(422, {
+          code: 422,
+          message: 'Validation failed.',
+          errors: [
+            { property: 'variant_attribute_sets[0].axes', message: 'Variant axes "color" must be unique.' },
+            { property: 'variant_attribute_sets[1].level', message: 'This value should not be blank.' },
+          ],
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      await expect(
+        api.createFamilyVariant({
+          familyCode: 'clothing',
+          data: { code: 'clothing_color', variant_attribute_sets: [{ level: 1, axes: ['color'], attributes: [] }] },
+        }),
+      ).rejects.toThrowError(
+        'The `clothing_color` family variant is not valid: \n' +
+          '• variant_attribute_sets[0].axes: Variant axes "color" must be unique.\n' +
+          '• variant_attribute_sets[1].level: This value should not be blank.',
+      )
+    })
+  })
+
+  describe('upsertFamilyVariant', () => {
+    it('should PATCH the family variant and return the status code and location', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/families/clothing/variants/clothing_size', { labels: { en_GB: 'Clothing by size' } })
+        .reply(204, '', { Location: 'https://test-endpoint/api/rest/v1/families/clothing/variants/clothing_size' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertFamilyVariant({
+        familyCode: 'clothing',
+        code: 'clothing_size',
+        data: { labels: { en_GB: 'Clothing by size' } },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({
+        status: 204,
+        location: 'https://test-endpoint/api/rest/v1/families/clothing/variants/clothing_size',
+      })
+    })
+
+    it('should not change errors that are not validation errors', async () => {
+      nock('https://test-endpoint')
+        .patch('/api/rest/v1/families/clothing/variants/clothing_size')
+        .reply(404, { code: 404, message: 'Resource not found.' })
+      const api = new AkeneoApi(defaultConfig)
+
+      await expect(
+        api.upsertFamilyVariant({ familyCode: 'clothing', code: 'clothing_size', data: {} }),
+      ).rejects.toThrowError('Request failed with status code 404')
+    })
+  })
+
+  describe('upsertListOfFamilyVariants', () => {
+    it('should PATCH the family variants as newline delimited JSON and parse each line of the response', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/families/clothing/variants', '{"code":"clothing_size"}\n{"code":"clothing_color"}')
+        .reply(
+          200,
+          '{"line":1,"code":"clothing_size","status_code":204}\n{"line":2,"code":"clothing_color","status_code":201}',
+        )
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfFamilyVariants({
+        familyCode: 'clothing',
+        data: [{ code: 'clothing_size' }, { code: 'clothing_color' }],
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { line: 1, code: 'clothing_size', status_code: 204 },
+        { line: 2, code: 'clothing_color', status_code: 201 },
+      ])
+    })
+  })
+
+  describe('getListOfMediaFiles', () => {
+    it('should return a list of media files', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/media-files')
+        .reply(200, {
+          _links: {},
+          current_page: 1,
+          _embedded: { items: [{ code: 'a/b/c/image.jpg', original_filename: 'image.jpg' }] },
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfMediaFiles()
+
+      expect(scope.isDone()).toBe(true)
+      expect(result._embedded.items).toEqual([{ code: 'a/b/c/image.jpg', original_filename: 'image.jpg' }])
+    })
+  })
+
+  describe('getMediaFile', () => {
+    it('should return the media file with the given code', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/media-files/a/b/c/image.jpg')
+        .reply(200, { code: 'a/b/c/image.jpg', original_filename: 'image.jpg' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getMediaFile({ code: 'a/b/c/image.jpg' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'a/b/c/image.jpg', original_filename: 'image.jpg' })
+    })
+  })
+
+  describe('downloadMediaFile', () => {
+    it('should return a stream of the media file content', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/media-files/a/b/c/image.jpg/download')
+        .reply(200, 'file-content')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.downloadMediaFile({ code: 'a/b/c/image.jpg' })
+
+      expect(scope.isDone()).toBe(true)
+      expect((await readFileContent(result as Readable)).toString()).toBe('file-content')
+    })
+
+    it('should parse the JSON error body when the media file is not found', async () => {
+      nock('https://test-endpoint')
+        .get('/api/rest/v1/media-files/a/b/c/image.jpg/download')
+        .reply(404, { code: 404, message: 'Media file "a/b/c/image.jpg" does not exist.' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const error = await api.downloadMediaFile({ code: 'a/b/c/image.jpg' }).catch((e) => e)
+
+      expect(error.status).toBe(404)
+      expect(error.data.response.data).toEqual({ code: 404, message: 'Media file "a/b/c/image.jpg" does not exist.' })
+      expect(() => JSON.stringify(error.toJSON())).not.toThrow()
+    })
+  })
+
+  describe('uploadProductMediaFile', () => {
+    it('should POST the file as multipart form data and return the media file code', async () => {
+      let body = ''
+      const scope = nock('https://test-endpoint')
+        .matchHeader('Content-Type', /^multipart\/form-data; boundary=/)
+        .post('/api/rest/v1/media-files', (requestBody) => {
+          body = requestBody
+          return true
+        })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/media-files/a/b/c/image.jpg' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.uploadProductMediaFile({
+        file: Buffer.from('file-content'),
+        filename: 'image.jpg',
+        product: { identifier: 'sku-1', attribute: 'image', scope: null, locale: null },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(body).toContain(
+        'Content-Disposition: form-data; name="product"\r\n\r\n' +
+          '{"identifier":"sku-1","attribute":"image","scope":null,"locale":null}',
+      )
+      expect(body).toContain('Content-Disposition: form-data; name="file"; filename="image.jpg"')
+      expect(body).toContain('file-content')
+      expect(result).toEqual({
+        status: 201,
+        location: 'https://test-endpoint/api/rest/v1/media-files/a/b/c/image.jpg',
+        code: 'a/b/c/image.jpg',
+      })
+    })
+
+    it('should send the product model when given', async () => {
+      let body = ''
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/media-files', (requestBody) => {
+          body = requestBody
+          return true
+        })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/media-files/a/b/c/image.jpg' })
+      const api = new AkeneoApi(defaultConfig)
+
+      await api.uploadProductMediaFile({
+        file: Buffer.from('file-content'),
+        filename: 'image.jpg',
+        productModel: { code: 'model-1', attribute: 'image', scope: 'ecommerce', locale: 'en_GB' },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(body).toContain(
+        'Content-Disposition: form-data; name="product_model"\r\n\r\n' +
+          '{"code":"model-1","attribute":"image","scope":"ecommerce","locale":"en_GB"}',
+      )
+    })
+
+    it('should not include the uploaded file in the error when the upload fails', async () => {
+      nock('https://test-endpoint')
+        .post('/api/rest/v1/media-files')
+        .reply(422, { code: 422, message: 'Property "product" expects a valid product identifier.' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const error = await api
+        .uploadProductMediaFile({
+          file: Buffer.from('file-content'),
+          filename: 'image.jpg',
+          product: { identifier: 'sku-1', attribute: 'image', scope: null, locale: null },
+        })
+        .catch((e) => e)
+
+      expect(error.status).toBe(422)
+      expect(error.data.request.data).toBeUndefined()
+      expect(error.data.response.data).toEqual({
+        code: 422,
+        message: 'Property "product" expects a valid product identifier.',
+      })
+    })
+
+    it('should throw an error when neither a product or product model is given', async () => {
+      const api = new AkeneoApi(defaultConfig)
+
+      await expect(api.uploadProductMediaFile({ file: Buffer.from(''), filename: 'image.jpg' })).rejects.toThrow(
+        'Exactly one of the `product` or `productModel` properties must be provided',
+      )
+    })
+  })
+
+  describe('getListOfAssetFamilies', () => {
+    it('should return a list of asset families', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/asset-families')
+        .reply(200, { _links: {}, _embedded: { items: [{ code: 'packshots', labels: { en_GB: 'Packshots' } }] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfAssetFamilies()
+
+      expect(scope.isDone()).toBe(true)
+      expect(result._embedded.items).toEqual([{ code: 'packshots', labels: { en_GB: 'Packshots' } }])
+    })
+  })
+
+  describe('getAssetFamily', () => {
+    it('should return the asset family with the given code', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/asset-families/packshots')
+        .reply(200, { code: 'packshots', labels: { en_GB: 'Packshots' } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getAssetFamily({ code: 'packshots' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'packshots', labels: { en_GB: 'Packshots' } })
+    })
+  })
+
+  describe('upsertAssetFamily', () => {
+    it('should PATCH the asset family, including the code in the body', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/asset-families/packshots', { labels: { en_GB: 'Packshots' }, code: 'packshots' })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/asset-families/packshots' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertAssetFamily({ code: 'packshots', data: { labels: { en_GB: 'Packshots' } } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: 'https://test-endpoint/api/rest/v1/asset-families/packshots' })
+    })
+  })
+
+  describe('getListOfAssetAttributes', () => {
+    it('should return the attributes of the asset family', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/asset-families/packshots/attributes')
+        .reply(200, [{ code: 'media', type: 'media_file' }])
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfAssetAttributes({ assetFamilyCode: 'packshots' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([{ code: 'media', type: 'media_file' }])
+    })
+  })
+
+  describe('getAssetAttribute', () => {
+    it('should return the asset attribute with the given code', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/asset-families/packshots/attributes/media')
+        .reply(200, { code: 'media', type: 'media_file' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getAssetAttribute({ assetFamilyCode: 'packshots', code: 'media' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'media', type: 'media_file' })
+    })
+  })
+
+  describe('upsertAssetAttribute', () => {
+    it('should PATCH the asset attribute, including the code in the body', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/asset-families/packshots/attributes/media', {
+          type: 'media_file',
+          value_per_locale: false,
+          value_per_channel: false,
+          code: 'media',
+        })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/asset-families/packshots/attributes/media' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertAssetAttribute({
+        assetFamilyCode: 'packshots',
+        code: 'media',
+        data: { type: 'media_file', value_per_locale: false, value_per_channel: false },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({
+        status: 201,
+        location: 'https://test-endpoint/api/rest/v1/asset-families/packshots/attributes/media',
+      })
+    })
+  })
+
+  describe('getListOfAssetAttributeOptions', () => {
+    it('should return the options of the asset attribute', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/asset-families/packshots/attributes/angle/options')
+        .reply(200, [{ code: 'front', labels: { en_GB: 'Front' } }])
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfAssetAttributeOptions({ assetFamilyCode: 'packshots', attributeCode: 'angle' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([{ code: 'front', labels: { en_GB: 'Front' } }])
+    })
+  })
+
+  describe('getAssetAttributeOption', () => {
+    it('should return the asset attribute option with the given code', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/asset-families/packshots/attributes/angle/options/front')
+        .reply(200, { code: 'front', labels: { en_GB: 'Front' } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getAssetAttributeOption({
+        assetFamilyCode: 'packshots',
+        attributeCode: 'angle',
+        code: 'front',
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'front', labels: { en_GB: 'Front' } })
+    })
+  })
+
+  describe('upsertAssetAttributeOption', () => {
+    it('should PATCH the asset attribute option, including the code in the body', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/asset-families/packshots/attributes/angle/options/front', {
+          labels: { en_GB: 'Front' },
+          code: 'front',
+        })
+        .reply(204, '')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertAssetAttributeOption({
+        assetFamilyCode: 'packshots',
+        attributeCode: 'angle',
+        code: 'front',
+        data: { labels: { en_GB: 'Front' } },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: undefined })
+    })
+  })
+
+  describe('upsertAsset', () => {
+    it('should PATCH the asset, including the code in the body', async () => {
+      const values = { media: [{ channel: null, locale: null, data: 'a/b/c/image.jpg' }] }
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/asset-families/packshots/assets/sku-1-front', { values, code: 'sku-1-front' })
+        .reply(204, '')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertAsset({
+        assetFamilyCode: 'packshots',
+        code: 'sku-1-front',
+        data: { values: values as any },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: undefined })
+    })
+  })
+
+  describe('upsertListOfAssets', () => {
+    it('should PATCH the assets as a JSON array and return the result of each item', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/asset-families/packshots/assets', [{ code: 'sku-1-front' }, { code: 'sku-1-back' }])
+        .reply(200, [
+          { code: 'sku-1-front', status_code: 201 },
+          { code: 'sku-1-back', status_code: 204 },
+        ])
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfAssets({
+        assetFamilyCode: 'packshots',
+        data: [{ code: 'sku-1-front' }, { code: 'sku-1-back' }],
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { code: 'sku-1-front', status_code: 201 },
+        { code: 'sku-1-back', status_code: 204 },
+      ])
+    })
+  })
+
+  describe('uploadAssetMediaFile', () => {
+    it('should POST the file as multipart form data and return the asset media file code', async () => {
+      let body = ''
+      const scope = nock('https://test-endpoint')
+        .matchHeader('Content-Type', /^multipart\/form-data; boundary=/)
+        .post('/api/rest/v1/asset-media-files', (requestBody) => {
+          body = requestBody
+          return true
+        })
+        .reply(201, '', {
+          Location: 'https://test-endpoint/api/rest/v1/asset-media-files/a/b/c/image.jpg',
+          'Asset-Media-File-Code': 'a/b/c/image.jpg',
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.uploadAssetMediaFile({ file: Buffer.from('file-content'), filename: 'image.jpg' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(body).toContain('Content-Disposition: form-data; name="file"; filename="image.jpg"')
+      expect(body).toContain('file-content')
+      expect(result).toEqual({
+        status: 201,
+        location: 'https://test-endpoint/api/rest/v1/asset-media-files/a/b/c/image.jpg',
+        code: 'a/b/c/image.jpg',
+      })
+    })
+  })
+
+  describe('downloadAssetMediaFile', () => {
+    it('should return a stream of the asset media file content', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/asset-media-files/a/b/c/image.jpg')
+        .reply(200, 'file-content')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.downloadAssetMediaFile({ code: 'a/b/c/image.jpg' })
+
+      expect(scope.isDone()).toBe(true)
+      expect((await readFileContent(result as Readable)).toString()).toBe('file-content')
+    })
+  })
+
+  describe('getReferenceEntity', () => {
+    it('should return the reference entity with the given code', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/reference-entities/brands')
+        .reply(200, { code: 'brands', labels: { en_GB: 'Brands' } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getReferenceEntity({ code: 'brands' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'brands', labels: { en_GB: 'Brands' } })
+    })
+  })
+
+  describe('upsertReferenceEntity', () => {
+    it('should PATCH the reference entity, including the code in the body', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/reference-entities/brands', { labels: { en_GB: 'Brands' }, code: 'brands' })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/reference-entities/brands' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertReferenceEntity({ code: 'brands', data: { labels: { en_GB: 'Brands' } } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: 'https://test-endpoint/api/rest/v1/reference-entities/brands' })
+    })
+  })
+
+  describe('getListOfReferenceEntityAttributes', () => {
+    it('should return the attributes of the reference entity', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/reference-entities/brands/attributes')
+        .reply(200, [{ code: 'logo', type: 'image' }])
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfReferenceEntityAttributes({ referenceEntityCode: 'brands' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([{ code: 'logo', type: 'image' }])
+    })
+  })
+
+  describe('getReferenceEntityAttribute', () => {
+    it('should return the reference entity attribute with the given code', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/reference-entities/brands/attributes/logo')
+        .reply(200, { code: 'logo', type: 'image' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getReferenceEntityAttribute({ referenceEntityCode: 'brands', code: 'logo' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'logo', type: 'image' })
+    })
+  })
+
+  describe('upsertReferenceEntityAttribute', () => {
+    it('should PATCH the reference entity attribute, including the code in the body', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/reference-entities/brands/attributes/logo', {
+          type: 'image',
+          value_per_locale: false,
+          value_per_channel: false,
+          code: 'logo',
+        })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/reference-entities/brands/attributes/logo' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertReferenceEntityAttribute({
+        referenceEntityCode: 'brands',
+        code: 'logo',
+        data: { type: 'image', value_per_locale: false, value_per_channel: false },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({
+        status: 201,
+        location: 'https://test-endpoint/api/rest/v1/reference-entities/brands/attributes/logo',
+      })
+    })
+  })
+
+  describe('getListOfReferenceEntityAttributeOptions', () => {
+    it('should return the options of the reference entity attribute', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/reference-entities/brands/attributes/country/options')
+        .reply(200, [{ code: 'uk', labels: { en_GB: 'United Kingdom' } }])
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfReferenceEntityAttributeOptions({
+        referenceEntityCode: 'brands',
+        attributeCode: 'country',
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([{ code: 'uk', labels: { en_GB: 'United Kingdom' } }])
+    })
+  })
+
+  describe('getReferenceEntityAttributeOption', () => {
+    it('should return the reference entity attribute option with the given code', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/reference-entities/brands/attributes/country/options/uk')
+        .reply(200, { code: 'uk', labels: { en_GB: 'United Kingdom' } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getReferenceEntityAttributeOption({
+        referenceEntityCode: 'brands',
+        attributeCode: 'country',
+        code: 'uk',
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'uk', labels: { en_GB: 'United Kingdom' } })
+    })
+  })
+
+  describe('upsertReferenceEntityAttributeOption', () => {
+    it('should PATCH the reference entity attribute option, including the code in the body', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/reference-entities/brands/attributes/country/options/uk', {
+          labels: { en_GB: 'United Kingdom' },
+          code: 'uk',
+        })
+        .reply(204, '')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertReferenceEntityAttributeOption({
+        referenceEntityCode: 'brands',
+        attributeCode: 'country',
+        code: 'uk',
+        data: { labels: { en_GB: 'United Kingdom' } },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: undefined })
+    })
+  })
+
+  describe('getReferenceEntityRecord', () => {
+    it('should return the reference entity record with the given code', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/reference-entities/brands/records/acme')
+        .reply(200, { code: 'acme', values: { label: [{ channel: null, locale: 'en_GB', data: 'Acme' }] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getReferenceEntityRecord({ referenceEntityCode: 'brands', code: 'acme' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ code: 'acme', values: { label: [{ channel: null, locale: 'en_GB', data: 'Acme' }] } })
+    })
+  })
+
+  describe('upsertReferenceEntityRecord', () => {
+    it('should PATCH the reference entity record, including the code in the body', async () => {
+      const values = { label: [{ channel: null, locale: 'en_GB', data: 'Acme' }] }
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/reference-entities/brands/records/acme', { values, code: 'acme' })
+        .reply(201, '', { Location: 'https://test-endpoint/api/rest/v1/reference-entities/brands/records/acme' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertReferenceEntityRecord({
+        referenceEntityCode: 'brands',
+        code: 'acme',
+        data: { values },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({
+        status: 201,
+        location: 'https://test-endpoint/api/rest/v1/reference-entities/brands/records/acme',
+      })
+    })
+  })
+
+  describe('upsertListOfReferenceEntityRecords', () => {
+    it('should PATCH the records as a JSON array and return the result of each record', async () => {
+      const scope = nock('https://test-endpoint')
+        .patch('/api/rest/v1/reference-entities/brands/records', [{ code: 'acme' }, { code: 'globex' }])
+        .reply(200, [
+          { code: 'acme', status_code: 204 },
+          { code: 'globex', status_code: 422, message: 'Invalid record' },
+        ])
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.upsertListOfReferenceEntityRecords({
+        referenceEntityCode: 'brands',
+        data: [{ code: 'acme' }, { code: 'globex' }],
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual([
+        { code: 'acme', status_code: 204 },
+        { code: 'globex', status_code: 422, message: 'Invalid record' },
+      ])
+    })
+  })
+
+  describe('uploadReferenceEntityMediaFile', () => {
+    it('should POST the file as multipart form data and return the reference entity media file code', async () => {
+      let body = ''
+      const scope = nock('https://test-endpoint')
+        .matchHeader('Content-Type', /^multipart\/form-data; boundary=/)
+        .post('/api/rest/v1/reference-entities-media-files', (requestBody) => {
+          body = requestBody
+          return true
+        })
+        .reply(201, '', {
+          Location: 'https://test-endpoint/api/rest/v1/reference-entities-media-files/a/b/c/logo.png',
+          'Reference-Entities-Media-File-Code': 'a/b/c/logo.png',
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.uploadReferenceEntityMediaFile({
+        file: Buffer.from('file-content'),
+        filename: 'logo.png',
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(body).toContain('Content-Disposition: form-data; name="file"; filename="logo.png"')
+      expect(result).toEqual({
+        status: 201,
+        location: 'https://test-endpoint/api/rest/v1/reference-entities-media-files/a/b/c/logo.png',
+        code: 'a/b/c/logo.png',
+      })
+    })
+  })
+
+  describe('downloadReferenceEntityMediaFile', () => {
+    it('should return a stream of the reference entity media file content', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/reference-entities-media-files/a/b/c/logo.png')
+        .reply(200, 'file-content')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.downloadReferenceEntityMediaFile({ code: 'a/b/c/logo.png' })
+
+      expect(scope.isDone()).toBe(true)
+      expect((await readFileContent(result as Readable)).toString()).toBe('file-content')
+    })
+  })
+
+  describe('getPublishedProduct', () => {
+    it('should return the published product with the given code', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/published-products/sku-1')
+        .reply(200, { identifier: 'sku-1', enabled: true })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getPublishedProduct({ code: 'sku-1' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ identifier: 'sku-1', enabled: true })
+    })
+  })
+
+  describe('getListOfPublishedProducts', () => {
+    it('should pass the query parameters and follow the next links when fetching all pages', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/published-products')
+        .query({ scope: 'ecommerce', locales: 'en_GB', pagination_type: 'search_after' })
+        .reply(200, {
+          _links: {
+            first: { href: 'https://test-endpoint/api/rest/v1/published-products?first' },
+            next: { href: 'https://test-endpoint/api/rest/v1/published-products?search_after=sku-1' },
+          },
+          _embedded: { items: [{ identifier: 'sku-1' }] },
+        })
+        .get('/api/rest/v1/published-products')
+        .query({ search_after: 'sku-1' })
+        .reply(200, { _links: {}, _embedded: { items: [{ identifier: 'sku-2' }] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfPublishedProducts({
+        fetchAll: true,
+        params: { scope: 'ecommerce', locales: 'en_GB', pagination_type: 'search_after' },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result._embedded.items).toEqual([{ identifier: 'sku-1' }, { identifier: 'sku-2' }])
+    })
+  })
+
+  describe('getProductDraft', () => {
+    it('should return the draft of the product', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/products/sku-1/draft')
+        .reply(200, { identifier: 'sku-1', metadata: { workflow_status: 'draft_in_progress' } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getProductDraft({ code: 'sku-1' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result.metadata.workflow_status).toBe('draft_in_progress')
+    })
+  })
+
+  describe('submitProductDraftForApproval', () => {
+    it('should POST an empty body to the proposal endpoint of the product', async () => {
+      const scope = nock('https://test-endpoint').post('/api/rest/v1/products/sku-1/proposal', {}).reply(201, '')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.submitProductDraftForApproval({ code: 'sku-1' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: undefined })
+    })
+  })
+
+  describe('getProductModelDraft', () => {
+    it('should return the draft of the product model', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/product-models/model-1/draft')
+        .reply(200, { code: 'model-1', metadata: { workflow_status: 'draft_in_progress' } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getProductModelDraft({ code: 'model-1' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result.metadata.workflow_status).toBe('draft_in_progress')
+    })
+  })
+
+  describe('submitProductModelDraftForApproval', () => {
+    it('should POST an empty body to the proposal endpoint of the product model', async () => {
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/product-models/model-1/proposal', {})
+        .reply(201, '')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.submitProductModelDraftForApproval({ code: 'model-1' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 201, location: undefined })
+    })
+  })
+
+  describe('launchExportJob', () => {
+    it('should POST to the export job endpoint and return the job execution reference', async () => {
+      const execution = {
+        execution_id: 42,
+        _links: { execution: { href: 'https://test-endpoint/job/show/42' } },
+      }
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/jobs/export/csv_product_export')
+        .reply(200, execution)
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.launchExportJob({ code: 'csv_product_export' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual(execution)
+    })
+  })
+
+  describe('launchImportJob', () => {
+    it('should POST to the import job endpoint and return the job execution reference', async () => {
+      const execution = {
+        execution_id: 43,
+        _links: { execution: { href: 'https://test-endpoint/job/show/43' } },
+      }
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/jobs/import/csv_product_import')
+        .reply(200, execution)
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.launchImportJob({ code: 'csv_product_import' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual(execution)
+    })
+  })
+
+  describe('getSystemInformation', () => {
+    it('should return the version and edition of the PIM', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/system-information')
+        .reply(200, { version: '7.0.12', edition: 'EE' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getSystemInformation()
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ version: '7.0.12', edition: 'EE' })
+    })
+  })
+
+  describe('getCapabilities', () => {
+    it('should only request the system information once', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/system-information')
+        .once()
+        .reply(200, { version: '6.0.3', edition: 'CE' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getCapabilities()
+      await api.getCapabilities()
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({
+        with_attribute_options: true,
+        with_completenesses: false,
+        with_enriched_attributes: false,
+        with_position: false,
+        with_quality_scores: true,
+        with_table_select_options: false,
+        uuid_products: false,
+        asset_families: false,
+      })
+    })
+
+    it('should return undefined when the PIM does not expose its system information', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/system-information')
+        .reply(404, { code: 404, message: 'Resource not found' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getCapabilities()
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toBeUndefined()
+    })
+
+    it('should return undefined and request the system information again next time when the request fails', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/system-information')
+        .reply(403, { code: 403, message: 'Access forbidden.' })
+        .get('/api/rest/v1/system-information')
+        .reply(200, { version: '7.0.12', edition: 'EE' })
+      const api = new AkeneoApi(defaultConfig)
+
+      const first = await api.getCapabilities()
+      const second = await api.getCapabilities()
+
+      expect(scope.isDone()).toBe(true)
+      expect(first).toBeUndefined()
+      expect(second?.uuid_products).toBe(true)
+    })
+  })
+
+  describe('query parameter validation', () => {
+    it('should not request the system information when no version dependent parameters are given', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/products')
+        .query({ limit: '10', with_completenesses: 'false' })
+        .reply(200, { _links: {}, _embedded: { items: [] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      await api.getListOfProducts({ params: { limit: 10, with_completenesses: false } })
+
+      expect(scope.isDone()).toBe(true)
+    })
+
+    it('should throw an error without making the request when a parameter is not supported', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/system-information')
+        .reply(200, { version: '6.0.3', edition: 'EE' })
+      const api = new AkeneoApi(defaultConfig)
+
+      await expect(
+        api.getListOfProducts({ params: { with_completenesses: true, with_quality_scores: true } }),
+      ).rejects.toThrow(
+        'The following query parameters are not supported by this PIM (EE 6.0.3): `with_completenesses`',
+      )
+      expect(scope.isDone()).toBe(true)
+    })
+
+    it('should only allow the table select options on SaaS editions', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/system-information')
+        .reply(200, { version: '7.0.12', edition: 'EE' })
+      const api = new AkeneoApi(defaultConfig)
+
+      await expect(api.getListOfAttributes({ params: { with_table_select_options: true } })).rejects.toThrow(
+        'The following query parameters are not supported by this PIM (EE 7.0.12): `with_table_select_options`',
+      )
+      expect(scope.isDone()).toBe(true)
+    })
+
+    it('should allow every parameter when the PIM does not expose its system information', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/system-information')
+        .reply(404, { code: 404, message: 'Resource not found' })
+        .get('/api/rest/v1/categories')
+        .query({ with_position: 'true' })
+        .reply(200, { _links: {}, _embedded: { items: [] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      await api.getListOfCategories({ params: { with_position: true } })
+
+      expect(scope.isDone()).toBe(true)
+    })
+
+    it('should allow every parameter when the system information can not be retrieved', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/system-information')
+        .reply(403, { code: 403, message: 'Access forbidden.' })
+        .get('/api/rest/v1/categories')
+        .query({ with_position: 'true' })
+        .reply(200, { _links: {}, _embedded: { items: [] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      await api.getListOfCategories({ params: { with_position: true } })
+
+      expect(scope.isDone()).toBe(true)
+    })
+  })
+
+  describe('getListOfCatalogs', () => {
+    it('should return the catalogs of the app', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/catalogs')
+        .reply(200, {
+          _links: {},
+          _embedded: { items: [{ id: '12351d98-200e-4bbc-aa19-7fdda1bd14f2', name: 'Store', enabled: true }] },
+        })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfCatalogs()
+
+      expect(scope.isDone()).toBe(true)
+      expect(result._embedded.items).toEqual([
+        { id: '12351d98-200e-4bbc-aa19-7fdda1bd14f2', name: 'Store', enabled: true },
+      ])
+    })
+  })
+
+  describe('getCatalog', () => {
+    it('should return the catalog with the given id', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/catalogs/12351d98-200e-4bbc-aa19-7fdda1bd14f2')
+        .reply(200, { id: '12351d98-200e-4bbc-aa19-7fdda1bd14f2', name: 'Store', enabled: true })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getCatalog({ id: '12351d98-200e-4bbc-aa19-7fdda1bd14f2' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ id: '12351d98-200e-4bbc-aa19-7fdda1bd14f2', name: 'Store', enabled: true })
+    })
+  })
+
+  describe('createCatalog', () => {
+    it('should POST the catalog and return the created catalog', async () => {
+      const scope = nock('https://test-endpoint')
+        .post('/api/rest/v1/catalogs', { name: 'Store' })
+        .reply(201, { id: '12351d98-200e-4bbc-aa19-7fdda1bd14f2', name: 'Store', enabled: false })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.createCatalog({ data: { name: 'Store' } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ id: '12351d98-200e-4bbc-aa19-7fdda1bd14f2', name: 'Store', enabled: false })
+    })
+  })
+
+  describe('getListOfCatalogProductUuids', () => {
+    it('should follow the next links when `fetchAll` is true', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/catalogs/catalog-1/product-uuids')
+        .query({ limit: 1 })
+        .reply(200, {
+          _links: {
+            next: { href: 'https://test-endpoint/api/rest/v1/catalogs/catalog-1/product-uuids?search_after=a' },
+          },
+          _embedded: { items: ['a'] },
+        })
+        .get('/api/rest/v1/catalogs/catalog-1/product-uuids')
+        .query({ search_after: 'a' })
+        .reply(200, { _links: {}, _embedded: { items: ['b'] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfCatalogProductUuids({ id: 'catalog-1', fetchAll: true, params: { limit: 1 } })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result._embedded.items).toEqual(['a', 'b'])
+    })
+  })
+
+  describe('getListOfCatalogProducts', () => {
+    it('should return the products of the catalog', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/catalogs/catalog-1/products')
+        .query({ updated_after: '2023-01-01T00:00:00Z' })
+        .reply(200, { _links: {}, _embedded: { items: [{ uuid: 'a', enabled: true }] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfCatalogProducts({
+        id: 'catalog-1',
+        params: { updated_after: '2023-01-01T00:00:00Z' },
+      })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result._embedded.items).toEqual([{ uuid: 'a', enabled: true }])
+    })
+  })
+
+  describe('getListOfCatalogMappedProducts', () => {
+    it('should return the mapped products of the catalog', async () => {
+      const scope = nock('https://test-endpoint')
+        .get('/api/rest/v1/catalogs/catalog-1/mapped-products')
+        .reply(200, { _links: {}, _embedded: { items: [{ uuid: 'a', title: 'Blue shoes' }] } })
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.getListOfCatalogMappedProducts<{ uuid: string; title: string }>({ id: 'catalog-1' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result._embedded.items).toEqual([{ uuid: 'a', title: 'Blue shoes' }])
+    })
+  })
+
+  describe('updateCatalogProductMappingSchema', () => {
+    it('should PUT the product mapping schema of the catalog', async () => {
+      const schema = {
+        $schema: 'https://api.akeneo.com/mapping/product/0.0.13/schema',
+        properties: { uuid: { type: 'string' }, title: { type: 'string' } },
+      }
+      const scope = nock('https://test-endpoint')
+        .put('/api/rest/v1/catalogs/catalog-1/mapping-schemas/product', schema)
+        .reply(204, '')
+      const api = new AkeneoApi(defaultConfig)
+
+      const result = await api.updateCatalogProductMappingSchema({ id: 'catalog-1', data: schema })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ status: 204, location: undefined })
+    })
+  })
+
   describe('isRetryableError', () => {
     it('should return true when the error is not an axios error', async () => {
       const api = new AkeneoApi(defaultConfig)
@@ -0,0 +1,193 @@
+import nock from 'nock'
+import { createHash, createSign, generateKeyPairSync } from 'crypto'
+import { AkeneoAppAuth, AkeneoAppAuthConfig } from '../../lib'
+
+const defaultConfig: AkeneoAppAuthConfig = {
+  endpoint: 'https://test-pim',
+  clientId: 'test-client-id',
+  clientSecret: 'test-client-secret',
+  timeoutMs: 1000,
+}
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString()
+
+function base64Url(value: string | Buffer) {
+  return Buffer.from(value).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+function createIdToken(claims: Record<string, any>, alg = 'RS256') {
+  const header = base64Url(JSON.stringify({ alg, typ: 'JWT' }))
+  const payload = base64Url(JSON.stringify(claims))
+  const signature = createSign('RSA-SHA256').update(`${header}.${payload}`).sign(privateKey)
+  return `${header}.${payload}.${base64Url(signature)}`
+}
+
+const validClaims = {
+  iss: 'https://test-pim',
+  aud: 'test-client-id',
+  sub: 'e9e4a5b2-0d6c-4b2b-9b8c-7c0e5b0b9b9b',
+  iat: Math.floor(Date.now() / 1000),
+  exp: Math.floor(Date.now() / 1000) + 3600,
+  email: 'jane@example.com',
+}
+
+describe('AkeneoAppAuth', () => {
+  beforeAll(() => {
+    nock.disableNetConnect()
+  })
+
+  afterEach(() => {
+    nock.cleanAll()
+  })
+
+  describe('getAuthorizeUrl', () => {
+    it('should build the authorize URL with the client id, scopes and state', () => {
+      const auth = new AkeneoAppAuth({ ...defaultConfig, endpoint: 'https://test-pim/' })
+
+      const url = auth.getAuthorizeUrl({ scopes: ['read_products', 'openid', 'email'], state: 'test-state' })
+
+      expect(url).toBe(
+        'https://test-pim/connect/apps/v1/authorize?response_type=code&client_id=test-client-id' +
+          '&scope=read_products%20openid%20email&state=test-state',
+      )
+    })
+  })
+
+  describe('createCodeChallenge', () => {
+    it('should hash the code identifier followed by the client secret', () => {
+      const auth = new AkeneoAppAuth(defaultConfig)
+
+      const result = auth.createCodeChallenge('test-code-identifier')
+
+      expect(result).toEqual({
+        codeIdentifier: 'test-code-identifier',
+        codeChallenge: createHash('sha256').update('test-code-identifiertest-client-secret').digest('hex'),
+      })
+    })
+
+    it('should generate a random code identifier when none is given', () => {
+      const auth = new AkeneoAppAuth(defaultConfig)
+
+      const first = auth.createCodeChallenge()
+      const second = auth.createCodeChallenge()
+
+      expect(first.codeIdentifier).toMatch(/^[0-9a-f]{64}$/)
+      expect(first.codeIdentifier).not.toBe(second.codeIdentifier)
+    })
+  })
+
+  describe('getAccessToken', () => {
+    it('should exchange the authorization code for an access token', async () => {
+      let body: Record<string, string> = {}
+      const scope = nock('https://test-pim')
+        .post('/connect/apps/v1/oauth2/token', (requestBody) => {
+          body = requestBody
+          return true
+        })
+        .reply(200, { access_token: 'test-app-token', token_type: 'bearer', scope: 'read_products' })
+      const auth = new AkeneoAppAuth(defaultConfig)
+
+      const result = await auth.getAccessToken({ code: 'test-code' })
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual({ access_token: 'test-app-token', token_type: 'bearer', scope: 'read_products' })
+      expect(body).toMatchObject({
+        grant_type: 'authorization_code',
+        client_id: 'test-client-id',
+        code: 'test-code',
+      })
+      expect(body.code_challenge).toBe(auth.createCodeChallenge(body.code_identifier).codeChallenge)
+    })
+
+    it('should throw an AkeneoError when the code is rejected', async () => {
+      nock('https://test-pim')
+        .post('/connect/apps/v1/oauth2/token')
+        .reply(400, { error: 'invalid_grant', error_description: 'Code is not valid' })
+      const auth = new AkeneoAppAuth(defaultConfig)
+
+      await expect(auth.getAccessToken({ code: 'test-code' })).rejects.toMatchObject({
+        isAkeneoError: true,
+        status: 400,
+      })
+    })
+  })
+
+  describe('verifyIdToken', () => {
+    function nockPublicKey() {
+      return nock('https://test-pim').get('/connect/apps/v1/openid/public-key').reply(200, { public_key: publicKeyPem })
+    }
+
+    it('should return the claims of a valid id token', async () => {
+      const scope = nockPublicKey()
+      const auth = new AkeneoAppAuth(defaultConfig)
+
+      const result = await auth.verifyIdToken(createIdToken(validClaims))
+
+      expect(scope.isDone()).toBe(true)
+      expect(result).toEqual(validClaims)
+    })
+
+    it('should only request the public key once', async () => {
+      const scope = nockPublicKey()
+      const auth = new AkeneoAppAuth(defaultConfig)
+
+      await auth.verifyIdToken(createIdToken(validClaims))
+      await auth.verifyIdToken(createIdToken(validClaims))
+
+      expect(scope.isDone()).toBe(true)
+    })
+
+    it('should throw an error when the signature is not valid', async () => {
+      nockPublicKey()
+      const auth = new AkeneoAppAuth(defaultConfig)
+      const [header, , signature] = createIdToken(validClaims).split('.')
+      const tamperedPayload = base64Url(JSON.stringify({ ...validClaims, sub: 'someone-else' }))
+
+      await expect(auth.verifyIdToken(`${header}.${tamperedPayload}.${signature}`)).rejects.toThrow(
+        'The id token signature is not valid',
+      )
+    })
+
+    it('should throw an error when the algorithm is not RS256', async () => {
+      const auth = new AkeneoAppAuth(defaultConfig)
+
+      await expect(auth.verifyIdToken(createIdToken(validClaims, 'none'))).rejects.toThrow(
+        'The id token algorithm must be RS256, but was none',
+      )
+    })
+
+    it('should throw an error when the token is not a JWT', async () => {
+      const auth = new AkeneoAppAuth(defaultConfig)
+
+      await expect(auth.verifyIdToken('not-a-jwt')).rejects.toThrow('The id token is not a valid JWT')
+    })
+
+    it('should throw an error when the issuer is not the PIM', async () => {
+      nockPublicKey()
+      const auth = new AkeneoAppAuth(defaultConfig)
+
+      await expect(auth.verifyIdToken(createIdToken({ ...validClaims, iss: 'https://other-pim' }))).rejects.toThrow(
+        'The id token issuer is not valid: expected https://test-pim, but was https://other-pim',
+      )
+    })
+
+    it('should throw an error when the audience is not the app', async () => {
+      nockPublicKey()
+      const auth = new AkeneoAppAuth(defaultConfig)
+
+      await expect(auth.verifyIdToken(createIdToken({ ...validClaims, aud: 'other-app' }))).rejects.toThrow(
+        'The id token audience does not include the client id of the app',
+      )
+    })
+
+    it('should throw an error when the token has expired', async () => {
+      nockPublicKey()
+      const auth = new AkeneoAppAuth(defaultConfig)
+
+      await expect(
+        auth.verifyIdToken(createIdToken({ ...validClaims, exp: Math.floor(Date.now() / 1000) - 60 })),
+      ).rejects.toThrow('The id token has expired')
+    })
+  })
+})
@@ -42,6 +42,15 @@ describe('AkeneoError', () => {
       expect(AkeneoError.parseRequestData({ data: 123 } as InternalAxiosRequestConfig)).toBe(123)
     })
 
+    it('should leave out binary data, such as the body of a multipart upload', () => {
+      expect(
+        AkeneoError.parseRequestData({
+          data: Buffer.from('file-content'),
+          headers: { 'Content-Type': 'multipart/form-data; boundary=abc' },
+        } as unknown as InternalAxiosRequestConfig),
+      ).toBeUndefined()
+    })
+
     it("should return the data passed in if it's a string but the Content-Type is missing", () => {
       expect(
         AkeneoError.parseRequestData({
@@ -0,0 +1,104 @@
+import { validateAttribute } from '../../lib'
+
+describe('validateAttribute', () => {
+  it('should not throw an error when the type is not provided', () => {
+    expect(() => validateAttribute({ code: 'weight', metric_family: 'Weight' })).not.toThrow()
+  })
+
+  it('should not throw an error when the type specific properties match the type', () => {
+    expect(() =>
+      validateAttribute(
+        {
+          code: 'weight',
+          type: 'pim_catalog_metric',
+          metric_family: 'Weight',
+          default_metric_unit: 'KILOGRAM',
+          decimals_allowed: true,
+          negative_allowed: false,
+        },
+        true,
+      ),
+    ).not.toThrow()
+  })
+
+  it('should ignore type specific properties that are null', () => {
+    expect(() =>
+      validateAttribute({
+        code: 'name',
+        type: 'pim_catalog_text',
+        metric_family: null as unknown as string,
+        max_characters: 255,
+      }),
+    ).not.toThrow()
+  })
+
+  it('should not throw an error for an attribute exactly as akeneo returns it', () => {
+    // Response of `GET /api/rest/v1/attributes/auto_exposure` on an akeneo 7.0 PIM
+    const attribute = {
+      code: 'auto_exposure',
+      type: 'pim_catalog_boolean' as const,
+      group: 'technical',
+      unique: false,
+      useable_as_grid_filter: true,
+      allowed_extensions: [],
+      metric_family: null,
+      default_metric_unit: null,
+      reference_data_name: null,
+      available_locales: [],
+      max_characters: null,
+      validation_rule: null,
+      validation_regexp: null,
+      wysiwyg_enabled: null,
+      number_min: null,
+      number_max: null,
+      decimals_allowed: null,
+      negative_allowed: null,
+      date_min: null,
+      date_max: null,
+      max_file_size: null,
+      minimum_input_length: null,
+      sort_order: 0,
+      localizable: false,
+      scopable: false,
+      labels: { en_US: 'Auto exposure', fr_FR: 'Exposition automatique' },
+      guidelines: {},
+      auto_option_sorting: null,
+      default_value: null,
+    }
+
+    expect(() => validateAttribute(attribute as any, true)).not.toThrow()
+  })
+
+  it('should ignore type specific properties that are false or an empty array', () => {
+    expect(() =>
+      validateAttribute({ code: 'name', type: 'pim_catalog_text', allowed_extensions: [], wysiwyg_enabled: false }),
+    ).not.toThrow()
+  })
+
+  it('should throw an error listing each property that is not available for the type', () => {
+    expect(() =>
+      validateAttribute({
+        code: 'name',
+        type: 'pim_catalog_text',
+        metric_family: 'Weight',
+        wysiwyg_enabled: true,
+      }),
+    ).toThrowError(
+      'The `name` attribute is not valid: \n' +
+        '• The `wysiwyg_enabled` property is only available for the pim_catalog_textarea attribute types\n' +
+        '• The `metric_family` property is only available for the pim_catalog_metric attribute types',
+    )
+  })
+
+  it('should throw an error when a required property is missing from a new attribute', () => {
+    expect(() =>
+      validateAttribute({ code: 'weight', type: 'pim_catalog_metric', metric_family: 'Weight' }, true),
+    ).toThrow('The `default_metric_unit` property is required for the pim_catalog_metric attribute type')
+  })
+
+  it('should not throw an error when a required property is missing from an existing attribute', () => {
+    expect(() =>
+      validateAttribute({ code: 'weight', type: 'pim_catalog_metric', metric_family: 'Weight' }),
+    ).not.toThrow()
+  })
+})
@@ -0,0 +1,46 @@
+import { isFailedBulkResult, parseNdjson, toNdjson } from '../../lib'
+
+describe('toNdjson', () => {
+  it('should return an empty string when no items are given', () => {
+    expect(toNdjson([])).toBe('')
+  })
+
+  it('should put each item on its own line', () => {
+    expect(toNdjson([{ identifier: 'a' }, { identifier: 'b', enabled: true }])).toBe(
+      '{"identifier":"a"}\n{"identifier":"b","enabled":true}',
+    )
+  })
+})
+
+describe('parseNdjson', () => {
+  it('should return an empty array when the input is empty', () => {
+    expect(parseNdjson('')).toEqual([])
+  })
+
+  it('should parse each line as a separate object, ignoring empty lines', () => {
+    expect(
+      parseNdjson('{"line":1,"identifier":"a","status_code":201}\n\n{"line":2,"identifier":"b","status_code":204}\n'),
+    ).toEqual([
+      { line: 1, identifier: 'a', status_code: 201 },
+      { line: 2, identifier: 'b', status_code: 204 },
+    ])
+  })
+
+  it('should throw an error when a line is not valid JSON', () => {
+    expect(() => parseNdjson('{"line":1}\n{"line":')).toThrow('Unable to parse the line as JSON: {"line":')
+  })
+})
+
+describe('isFailedBulkResult', () => {
+  it('should return false when the status code is 201', () => {
+    expect(isFailedBulkResult({ status_code: 201 })).toBe(false)
+  })
+
+  it('should return false when the status code is 204', () => {
+    expect(isFailedBulkResult({ status_code: 204 })).toBe(false)
+  })
+
+  it('should return true when the status code is 422', () => {
+    expect(isFailedBulkResult({ status_code: 422 })).toBe(true)
+  })
+})
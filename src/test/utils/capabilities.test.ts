@@ -0,0 +1,80 @@
+import { getCapabilities, getUnsupportedQueryParameters, isSaasEdition } from '../../lib'
+
+describe('isSaasEdition', () => {
+  it('should return true for the SaaS editions', () => {
+    expect(isSaasEdition('Serenity')).toBe(true)
+    expect(isSaasEdition('Growth Edition')).toBe(true)
+    expect(isSaasEdition('free trial edition')).toBe(true)
+  })
+
+  it('should return false for the on-premise editions', () => {
+    expect(isSaasEdition('CE')).toBe(false)
+    expect(isSaasEdition('EE')).toBe(false)
+  })
+})
+
+describe('getCapabilities', () => {
+  it('should enable every feature for Serenity', () => {
+    expect(getCapabilities({ version: 'v20230918000000', edition: 'Serenity' })).toEqual({
+      with_attribute_options: true,
+      with_completenesses: true,
+      with_enriched_attributes: true,
+      with_position: true,
+      with_quality_scores: true,
+      with_table_select_options: true,
+      uuid_products: true,
+      asset_families: true,
+    })
+  })
+
+  it('should not enable asset families for the Growth Edition', () => {
+    expect(getCapabilities({ version: 'v20230918000000', edition: 'Growth Edition' }).asset_families).toBe(false)
+    expect(getCapabilities({ version: 'v20230918000000', edition: 'growth edition' }).asset_families).toBe(false)
+  })
+
+  it('should enable features based on the major version for on-premise editions', () => {
+    expect(getCapabilities({ version: '4.0.1', edition: 'CE' })).toEqual({
+      with_attribute_options: false,
+      with_completenesses: false,
+      with_enriched_attributes: false,
+      with_position: false,
+      with_quality_scores: false,
+      with_table_select_options: false,
+      uuid_products: false,
+      asset_families: false,
+    })
+    expect(getCapabilities({ version: '7.0.12', edition: 'EE' })).toEqual({
+      with_attribute_options: true,
+      with_completenesses: false,
+      with_enriched_attributes: false,
+      with_position: false,
+      with_quality_scores: true,
+      with_table_select_options: false,
+      uuid_products: true,
+      asset_families: true,
+    })
+  })
+})
+
+describe('getUnsupportedQueryParameters', () => {
+  const capabilities = getCapabilities({ version: '6.0.3', edition: 'EE' })
+
+  it('should return an empty array when no parameters are given', () => {
+    expect(getUnsupportedQueryParameters(undefined, capabilities)).toEqual([])
+  })
+
+  it('should return the unsupported parameters, ignoring those set to false', () => {
+    expect(
+      getUnsupportedQueryParameters(
+        {
+          with_position: true,
+          with_completenesses: false,
+          with_quality_scores: true,
+          with_table_select_options: true,
+          search: '{}',
+        },
+        capabilities,
+      ),
+    ).toEqual(['with_position', 'with_table_select_options'])
+  })
+})
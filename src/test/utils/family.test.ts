@@ -0,0 +1,72 @@
+import { buildAddAttributeToFamilyPatch, buildRemoveAttributeFromFamilyPatch } from '../../lib'
+
+const family = {
+  attributes: ['sku', 'name', 'description'],
+  attribute_requirements: {
+    ecommerce: ['sku', 'name', 'description'],
+    print: ['sku', 'name'],
+  },
+}
+
+describe('buildAddAttributeToFamilyPatch', () => {
+  it('should add the attribute to the list of attributes', () => {
+    expect(buildAddAttributeToFamilyPatch(family, 'weight')).toEqual({
+      attributes: ['sku', 'name', 'description', 'weight'],
+    })
+  })
+
+  it('should add the attribute to the requirements of the given channels only', () => {
+    expect(buildAddAttributeToFamilyPatch(family, 'weight', ['print', 'mobile'])).toEqual({
+      attributes: ['sku', 'name', 'description', 'weight'],
+      attribute_requirements: {
+        print: ['sku', 'name', 'weight'],
+        mobile: ['weight'],
+      },
+    })
+  })
+
+  it('should not duplicate an attribute that is already in the family or its requirements', () => {
+    expect(buildAddAttributeToFamilyPatch(family, 'description', ['ecommerce', 'print'])).toEqual({
+      attributes: ['sku', 'name', 'description'],
+      attribute_requirements: {
+        print: ['sku', 'name', 'description'],
+      },
+    })
+  })
+
+  it('should not modify the family passed in', () => {
+    buildAddAttributeToFamilyPatch(family, 'weight', ['print'])
+
+    expect(family.attributes).toEqual(['sku', 'name', 'description'])
+    expect(family.attribute_requirements.print).toEqual(['sku', 'name'])
+  })
+})
+
+describe('buildRemoveAttributeFromFamilyPatch', () => {
+  it('should remove the attribute from the family and from the requirements of all channels', () => {
+    expect(buildRemoveAttributeFromFamilyPatch(family, 'name')).toEqual({
+      attributes: ['sku', 'description'],
+      attribute_requirements: {
+        ecommerce: ['sku', 'description'],
+        print: ['sku'],
+      },
+    })
+  })
+
+  it('should only remove the attribute from the requirements of the given channels', () => {
+    expect(buildRemoveAttributeFromFamilyPatch(family, 'name', ['print'])).toEqual({
+      attribute_requirements: {
+        print: ['sku'],
+      },
+    })
+  })
+
+  it('should not include channels that do not require the attribute', () => {
+    expect(buildRemoveAttributeFromFamilyPatch(family, 'description')).toEqual({
+      attributes: ['sku', 'name'],
+      attribute_requirements: {
+        ecommerce: ['sku', 'name'],
+      },
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import { convertMetricValue, MeasurementFamily } from '../../lib'
+
+const weight: MeasurementFamily = {
+  code: 'Weight',
+  labels: { en_GB: 'Weight' },
+  standard_unit_code: 'KILOGRAM',
+  units: {
+    KILOGRAM: {
+      code: 'KILOGRAM',
+      labels: { en_GB: 'Kilogram' },
+      convert_from_standard: [{ operator: 'mul', value: '1' }],
+      symbol: 'kg',
+    },
+    GRAM: {
+      code: 'GRAM',
+      labels: { en_GB: 'Gram' },
+      convert_from_standard: [{ operator: 'mul', value: '0.001' }],
+      symbol: 'g',
+    },
+    POUND: {
+      code: 'POUND',
+      labels: { en_GB: 'Pound' },
+      convert_from_standard: [{ operator: 'mul', value: '0.45359237' }],
+      symbol: 'lb',
+    },
+  },
+}
+
+const temperature: MeasurementFamily = {
+  code: 'Temperature',
+  labels: { en_GB: 'Temperature' },
+  standard_unit_code: 'KELVIN',
+  units: {
+    KELVIN: {
+      code: 'KELVIN',
+      labels: { en_GB: 'Kelvin' },
+      convert_from_standard: [{ operator: 'mul', value: '1' }],
+      symbol: '°K',
+    },
+    CELSIUS: {
+      code: 'CELSIUS',
+      labels: { en_GB: 'Celsius' },
+      convert_from_standard: [{ operator: 'add', value: '273.15' }],
+      symbol: '°C',
+    },
+    FAHRENHEIT: {
+      code: 'FAHRENHEIT',
+      labels: { en_GB: 'Fahrenheit' },
+      convert_from_standard: [
+        { operator: 'sub', value: '32' },
+        { operator: 'div', value: '1.8' },
+        { operator: 'add', value: '273.15' },
+      ],
+      symbol: '°F',
+    },
+  },
+}
+
+describe('convertMetricValue', () => {
+  it('should convert a unit to the standard unit', () => {
+    expect(convertMetricValue({ amount: '1500', unit: 'GRAM' }, 'KILOGRAM', weight)).toEqual({
+      amount: 1.5,
+      unit: 'KILOGRAM',
+    })
+  })
+
+  it('should convert the standard unit to another unit', () => {
+    expect(convertMetricValue({ amount: 2, unit: 'KILOGRAM' }, 'GRAM', weight)).toEqual({ amount: 2000, unit: 'GRAM' })
+  })
+
+  it('should convert between two non-standard units', () => {
+    const result = convertMetricValue({ amount: '1', unit: 'POUND' }, 'GRAM', weight)
+
+    expect(result.unit).toBe('GRAM')
+    expect(result.amount).toBeCloseTo(453.59237)
+  })
+
+  it('should apply multiple operations in the correct order', () => {
+    const result = convertMetricValue({ amount: '212', unit: 'FAHRENHEIT' }, 'CELSIUS', temperature)
+
+    expect(result.unit).toBe('CELSIUS')
+    expect(result.amount).toBeCloseTo(100)
+  })
+
+  it('should return the same amount when converting to the same unit', () => {
+    expect(convertMetricValue({ amount: '12.5000', unit: 'GRAM' }, 'GRAM', weight)).toEqual({
+      amount: 12.5,
+      unit: 'GRAM',
+    })
+  })
+
+  it('should throw an error when the source unit is not in the measurement family', () => {
+    expect(() => convertMetricValue({ amount: '1', unit: 'METER' }, 'GRAM', weight)).toThrow(
+      'The unit `METER` does not exist in the `Weight` measurement family',
+    )
+  })
+
+  it('should throw an error when the target unit is not in the measurement family', () => {
+    expect(() => convertMetricValue({ amount: '1', unit: 'GRAM' }, 'METER', weight)).toThrow(
+      'The unit `METER` does not exist in the `Weight` measurement family',
+    )
+  })
+
+  it('should throw an error when the amount is not a number', () => {
+    expect(() => convertMetricValue({ amount: 'abc', unit: 'GRAM' }, 'KILOGRAM', weight)).toThrow(
+      'The amount is not a valid number: abc',
+    )
+  })
+})
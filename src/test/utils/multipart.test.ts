@@ -0,0 +1,72 @@
+import { Readable } from 'stream'
+import { buildMultipartBody, createMultipartData, readFileContent } from '../../lib'
+
+describe('buildMultipartBody', () => {
+  it('should include each field, followed by the file content', () => {
+    const body = buildMultipartBody({
+      fields: { product: '{"identifier":"sku-1"}' },
+      content: Buffer.from('file-content'),
+      filename: 'image.jpg',
+      boundary: 'test-boundary',
+    })
+
+    expect(body.toString()).toBe(
+      '--test-boundary\r\n' +
+        'Content-Disposition: form-data; name="product"\r\n\r\n' +
+        '{"identifier":"sku-1"}\r\n' +
+        '--test-boundary\r\n' +
+        'Content-Disposition: form-data; name="file"; filename="image.jpg"\r\n' +
+        'Content-Type: application/octet-stream\r\n\r\n' +
+        'file-content\r\n' +
+        '--test-boundary--\r\n',
+    )
+  })
+
+  it('should escape double quotes in the filename', () => {
+    const body = buildMultipartBody({
+      fields: {},
+      content: Buffer.from(''),
+      filename: 'my "image".jpg',
+      boundary: 'test-boundary',
+    })
+
+    expect(body.toString()).toContain('filename="my %22image%22.jpg"')
+  })
+})
+
+describe('readFileContent', () => {
+  it('should return a Buffer as-is', async () => {
+    const buffer = Buffer.from('test')
+
+    expect(await readFileContent(buffer)).toBe(buffer)
+  })
+
+  it('should read the entire content of a stream', async () => {
+    const stream = Readable.from([Buffer.from('hello '), 'world'])
+
+    expect((await readFileContent(stream)).toString()).toBe('hello world')
+  })
+
+  it('should read the content of a Blob', async () => {
+    const blob = new Blob(['blob content'])
+
+    expect((await readFileContent(blob)).toString()).toBe('blob content')
+  })
+})
+
+describe('createMultipartData', () => {
+  it('should return a Buffer body with a matching boundary in the content type header', async () => {
+    const result = await createMultipartData({ fields: { a: 'b' }, file: Buffer.from('test'), filename: 'test.txt' })
+
+    const boundary = result.headers['Content-Type'].split('boundary=')[1]
+    expect(result.headers['Content-Type']).toMatch(/^multipart\/form-data; boundary=/)
+    expect(result.data.toString()).toBe(
+      buildMultipartBody({
+        fields: { a: 'b' },
+        content: Buffer.from('test'),
+        filename: 'test.txt',
+        boundary,
+      }).toString(),
+    )
+  })
+})
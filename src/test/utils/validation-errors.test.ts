@@ -0,0 +1,36 @@
+import { formatValidationErrors } from '../../lib'
+
+describe('formatValidationErrors', () => {
+  it('should return an empty string when there are no errors', () => {
+    expect(formatValidationErrors([])).toBe('')
+  })
+
+  it('should put each error on its own line, prefixed with the property', () => {
+    expect(
+      formatValidationErrors([
+        { property: 'variant_attribute_sets[0].axes', message: 'Variant axes "color" must be unique.' },
+        { property: 'labels', message: 'This value is too long.' },
+      ]),
+    ).toBe(
+      '• variant_attribute_sets[0].axes: Variant axes "color" must be unique.\n' + '• labels: This value is too long.',
+    )
+  })
+
+  it('should include the attribute, channel and locale when present', () => {
+    expect(
+      formatValidationErrors([
+        {
+          property: 'values',
+          attribute: 'weight',
+          scope: 'ecommerce',
+          locale: 'en_GB',
+          message: 'This value should be a valid number.',
+        },
+        { property: 'values', attribute: 'name', scope: null, locale: null, message: 'This value is too long.' },
+      ]),
+    ).toBe(
+      '• values[weight] (ecommerce, en_GB): This value should be a valid number.\n' +
+        '• values[name]: This value is too long.',
+    )
+  })
+})
@@ -23,6 +23,7 @@ module.exports = {
   },
   externals: {
     https: 'https',
+    crypto: 'crypto',
   },
   output: {
     path: path.resolve(__dirname, 'dist'),
@@ -31,7 +32,7 @@ module.exports = {
   plugins: [
     new webpack.EnvironmentPlugin(['GEAKU_IS_BROWSER']),
     new webpack.IgnorePlugin({
-      resourceRegExp: /^https$/,
+      resourceRegExp: /^(https|crypto)$/,
     }),
   ],
   experiments: {